@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: "standalone",
-  experimental: { serverComponentsExternalPackages: ["pg"] },
+  experimental: {
+    serverComponentsExternalPackages: ["pg"],
+    // Habilita src/instrumentation.ts (chequeo de embeddings al arrancar).
+    instrumentationHook: true,
+  },
 };
 export default nextConfig;
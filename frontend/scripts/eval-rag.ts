@@ -0,0 +1,290 @@
+/**
+ * scripts/eval-rag.ts — Evaluación de recuperación contra un set dorado
+ *
+ * Propósito: medir si un cambio (tamaños de chunk, modelo de embeddings, modo
+ * de búsqueda, rerank) mejora o empeora lo que devuelve searchDocuments.
+ *
+ * Uso:
+ *   npm run eval:rag -- fixtures/rag-golden.yaml
+ *   npm run eval:rag -- fixtures/rag-golden.yaml --config mode=vector --config mode=hybrid,rerank=local
+ *   npm run eval:rag -- fixtures/rag-golden.yaml --out eval.json        # guarda métricas
+ *   npm run eval:rag -- fixtures/rag-golden.yaml --baseline eval.json   # compara contra una corrida previa
+ *
+ * Flags:
+ *  - --k N: profundidad evaluada (default `k` del archivo o 5).
+ *  - --config "clave=valor,...": opciones de searchDocuments (mode, rerank,
+ *    minSimilarity, collection; paths y tags separados por "|"). Con dos
+ *    --config, el primero es la base y el segundo el candidato.
+ *  - --baseline archivo.json: métricas guardadas con --out (p.ej. antes de
+ *    re-ingestar con otro chunker o modelo); se compara la primera config.
+ *  - --tolerance X: caída admitida en recall@k/MRR antes de fallar (default 0).
+ *
+ * Set dorado (YAML o JSON): { k?, questions: [{ id?, question, paths?, snippets? }] }.
+ * Un resultado es relevante si su path coincide con `paths` (exacto o sufijo)
+ * o si su contenido incluye alguno de `snippets` (sin acentos/mayúsculas).
+ *
+ * Métricas:
+ *  - recall@k: fracción de objetivos esperados (paths + snippets) encontrados en el top-k.
+ *  - MRR: promedio de 1/rango del primer resultado relevante (0 si no hay).
+ *
+ * Salida: tabla por config, misses por pregunta y código != 0 ante regresiones.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import dotenv from "dotenv";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({
+  path: path.resolve(__dirname, "..", "..", ".env"),
+  quiet: true,
+});
+
+// Importes dinámicos para respetar alias ESM "@/"
+const { searchDocuments, searchModes } = await import("@/lib/rag");
+const { rerankStrategies } = await import("@/lib/rerank");
+
+type DocSearchResult = Awaited<ReturnType<typeof searchDocuments>>[number];
+type SearchOptions = NonNullable<Parameters<typeof searchDocuments>[1]>;
+
+// ------------------------------- Set dorado ---------------------------------
+const GoldenSchema = z.object({
+  k: z.number().int().positive().optional(),
+  questions: z
+    .array(
+      z
+        .object({
+          id: z.string().optional(),
+          question: z.string().min(1),
+          paths: z.array(z.string().min(1)).default([]),
+          snippets: z.array(z.string().min(1)).default([]),
+        })
+        .refine((q) => q.paths.length + q.snippets.length > 0, {
+          message: "cada pregunta necesita paths o snippets esperados",
+        })
+    )
+    .min(1),
+});
+
+type GoldenQuestion = z.infer<typeof GoldenSchema>["questions"][number];
+
+async function loadGolden(file: string) {
+  const raw = await readFile(file, "utf8");
+  const data = /\.ya?ml$/i.test(file) ? parseYaml(raw) : JSON.parse(raw);
+  return GoldenSchema.parse(data);
+}
+
+// --------------------------------- Configs ----------------------------------
+const listOption = z
+  .string()
+  .transform((v) => v.split("|").filter(Boolean))
+  .optional();
+
+const ConfigSchema = z.object({
+  mode: z.enum(searchModes).optional(),
+  rerank: z.enum(rerankStrategies).optional(),
+  minSimilarity: z.coerce.number().min(0).max(1).optional(),
+  paths: listOption,
+  collection: z.string().min(1).optional(),
+  tags: listOption,
+});
+
+/** "mode=hybrid,rerank=local" → opciones de searchDocuments. */
+function parseConfig(spec: string): SearchOptions {
+  const entries = spec
+    .split(",")
+    .map((pair) => pair.split("=").map((s) => s.trim()))
+    .filter(([key]) => key);
+  const { collection, tags, ...options } = ConfigSchema.parse(
+    Object.fromEntries(entries)
+  );
+  return collection || tags ? { ...options, filters: { collection, tags } } : options;
+}
+
+// -------------------------------- Métricas ----------------------------------
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ");
+
+const pathMatches = (actual: string, expected: string) =>
+  actual === expected || actual.endsWith(`/${expected}`);
+
+// Objetivos cubiertos por un resultado (índices en [...paths, ...snippets]).
+function targetsHit(q: GoldenQuestion, r: DocSearchResult): number[] {
+  const content = normalize(r.content);
+  return [
+    ...q.paths.map((p) => pathMatches(r.path, p)),
+    ...q.snippets.map((s) => content.includes(normalize(s))),
+  ].flatMap((hit, i) => (hit ? [i] : []));
+}
+
+type QuestionReport = {
+  id: string;
+  question: string;
+  recall: number;
+  reciprocalRank: number;
+  top: string[];
+};
+
+type ConfigReport = {
+  label: string;
+  k: number;
+  recallAtK: number;
+  mrr: number;
+  questions: QuestionReport[];
+};
+
+async function evaluate(
+  label: string,
+  options: SearchOptions,
+  golden: GoldenQuestion[],
+  k: number
+): Promise<ConfigReport> {
+  const questions: QuestionReport[] = [];
+  for (const [index, q] of golden.entries()) {
+    const results = await searchDocuments(q.question, {
+      minSimilarity: 0,
+      ...options,
+      limit: k,
+    });
+    const found = new Set<number>();
+    let firstRank = 0;
+    results.forEach((r, i) => {
+      const hits = targetsHit(q, r);
+      hits.forEach((t) => found.add(t));
+      if (hits.length && !firstRank) firstRank = i + 1;
+    });
+    questions.push({
+      id: q.id ?? `q${index + 1}`,
+      question: q.question,
+      recall: found.size / (q.paths.length + q.snippets.length),
+      reciprocalRank: firstRank ? 1 / firstRank : 0,
+      top: results.map((r) => `${r.path}#${r.id}`),
+    });
+  }
+  const mean = (values: number[]) =>
+    values.reduce((a, b) => a + b, 0) / values.length;
+  return {
+    label,
+    k,
+    recallAtK: Number(mean(questions.map((q) => q.recall)).toFixed(4)),
+    mrr: Number(mean(questions.map((q) => q.reciprocalRank)).toFixed(4)),
+    questions,
+  };
+}
+
+// --------------------------------- Reporte ----------------------------------
+function printMisses(report: ConfigReport) {
+  const misses = report.questions.filter((q) => q.recall < 1);
+  if (!misses.length) return;
+  console.log(`\nMisses (${report.label}):`);
+  for (const q of misses) {
+    console.log(
+      `  ✗ [${q.id}] ${q.question} — recall ${q.recall.toFixed(2)}, top: ${
+        q.top.join(", ") || "(sin resultados)"
+      }`
+    );
+  }
+}
+
+/**
+ * compare(base, candidate, tolerance): imprime deltas por métrica y por
+ * pregunta; devuelve true si el candidato empeora más que `tolerance`.
+ */
+function compare(base: ConfigReport, candidate: ConfigReport, tolerance: number) {
+  const rows = (["recallAtK", "mrr"] as const).map((metric) => ({
+    metric,
+    [base.label]: base[metric],
+    [candidate.label]: candidate[metric],
+    delta: Number((candidate[metric] - base[metric]).toFixed(4)),
+  }));
+  console.log(`\nComparación: ${base.label} → ${candidate.label}`);
+  console.table(rows);
+
+  const before = new Map(base.questions.map((q) => [q.id, q]));
+  for (const q of candidate.questions) {
+    const prev = before.get(q.id);
+    if (!prev) continue;
+    if (q.recall < prev.recall || q.reciprocalRank < prev.reciprocalRank)
+      console.log(
+        `  ↓ [${q.id}] recall ${prev.recall.toFixed(2)} → ${q.recall.toFixed(2)}, ` +
+          `RR ${prev.reciprocalRank.toFixed(2)} → ${q.reciprocalRank.toFixed(2)}`
+      );
+  }
+  return rows.some((r) => r.delta < -tolerance);
+}
+
+// ----------------------------------- CLI ------------------------------------
+function parseArgs(argv: string[]) {
+  const args = { file: "", configs: [] as string[], k: 0, out: "", baseline: "", tolerance: 0 };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s);
+    const value = () => inline ?? argv[++i];
+    if (flag === "--config") args.configs.push(value());
+    else if (flag === "--k") args.k = Number(value());
+    else if (flag === "--out") args.out = value();
+    else if (flag === "--baseline") args.baseline = value();
+    else if (flag === "--tolerance") args.tolerance = Number(value());
+    else if (!argv[i].startsWith("--")) args.file = argv[i];
+    else throw new Error(`Flag desconocido: ${argv[i]}`);
+  }
+  if (!args.file) throw new Error("Falta el archivo del set dorado (YAML o JSON)");
+  if (args.configs.length > 2) throw new Error("Se comparan como máximo dos --config");
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const golden = await loadGolden(path.resolve(process.cwd(), args.file));
+  const k = args.k || golden.k || 5;
+  const specs = args.configs.length ? args.configs : ["env"];
+
+  const reports: ConfigReport[] = [];
+  for (const spec of specs) {
+    const options = spec === "env" ? {} : parseConfig(spec);
+    reports.push(await evaluate(spec, options, golden.questions, k));
+  }
+
+  console.log(`Set: ${args.file} (${golden.questions.length} preguntas, k=${k})`);
+  console.table(
+    reports.map((r) => ({ config: r.label, [`recall@${k}`]: r.recallAtK, MRR: r.mrr }))
+  );
+  reports.forEach(printMisses);
+
+  let regression = false;
+  if (reports.length === 2)
+    regression = compare(reports[0], reports[1], args.tolerance);
+  if (args.baseline) {
+    const saved = JSON.parse(await readFile(args.baseline, "utf8")) as ConfigReport;
+    if (saved.k !== k)
+      console.warn(`⚠ El baseline se midió con k=${saved.k} y esta corrida usa k=${k}`);
+    regression =
+      compare({ ...saved, label: `baseline (${saved.label})` }, reports[0], args.tolerance) ||
+      regression;
+  }
+
+  if (args.out) {
+    await writeFile(args.out, JSON.stringify(reports[reports.length - 1], null, 2));
+    console.log(`\nMétricas guardadas en ${args.out}`);
+  }
+
+  if (regression) {
+    console.error("\n❌ Regresión de recuperación");
+    process.exit(1);
+  }
+  console.log("\n✅ Sin regresiones");
+  process.exit(0);
+}
+
+// Manejo de errores a nivel toplevel para devolver código de salida != 0 en caso de falla.
+await main().catch((e) => {
+  console.error("Error en la evaluación:", e);
+  process.exit(1);
+});
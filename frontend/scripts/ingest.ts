@@ -1,34 +1,57 @@
 /**
  * scripts/ingest.ts — Ingestor de documentos para índice RAG con pgvector
  *
- * Propósito: leer archivos .md/.txt desde un directorio, fragmentarlos,
+ * Propósito: leer documentos (.md/.txt/.html/.docx/.pdf) desde un directorio,
+ * extraer su texto con el loader de cada formato (src/lib/loaders.ts), fragmentarlos,
  * obtener embeddings y persistirlos en Postgres (tablas doc y doc_chunk).
  *
+ * Uso: `npm run ingest` (incremental), `npm run ingest -- --full` o
+ * `npm run ingest -- --watch` (reindexa al guardar archivos en DOCS_ROOT).
+ *
  * Flujo principal:
- *  1) Resolver ruta de documentos y validar variables de entorno claves.
+ *  1) Resolver ruta de documentos, validar variables de entorno claves y
+ *     aplicar las migraciones pendientes (src/lib/schema.ts).
  *  2) Verificar consistencia de la dimensión de embeddings con el schema DB.
- *  3) Limpiar tablas de destino (TRUNCATE) para una ingesta full.
- *  4) Recorrer archivos → fragmentar → embeddear → insertar en DB.
- *  5) Finalizar el proceso con código de salida adecuado.
+ *  3) Leer cada archivo y calcular su sha256; los cambiados pasan por su loader
+ *     (texto, título, encabezados y páginas) y se fragmentan por encabezado
+ *     (src/lib/chunker.ts); cada chunk se embebe con su breadcrumb.
+ *  4) Comparar contra doc.meta: los archivos con el mismo hash (y mismo
+ *     chunker) se saltean; en
+ *     los cambiados se reutilizan los chunks cuyo hash no cambió (mismo id).
+ *  5) Por documento: embeddings en lotes concurrentes sólo de los chunks
+ *     nuevos (los textos ya vistos salen de embedding_cache) → una transacción con upsert del doc, DELETE de chunks viejos e
+ *     INSERT multi-row de los nuevos.
+ *  6) Borrar los docs cuyos archivos ya no existen y reportar el resultado.
+ *  7) Con --watch, repetir 3–6 sólo para los archivos tocados (con debounce).
  *
  * Supuestos previos:
- *  - Postgres tiene tablas: doc(id, path, meta) y doc_chunk(doc_id, content, embedding vector(N)).
+ *  - Postgres tiene tablas: doc(id, path UNIQUE, meta) y doc_chunk(doc_id, content, embedding vector(N)).
  *  - EMBEDDING_DIM coincide con N del tipo vector(N) en la DB.
- *  - El proveedor de embeddings está disponible en OLLAMA_BASE_URL u otro backend compatible.
+ *  - El proveedor de embeddings (EMBEDDING_PROVIDER: ollama, openai o hash) está disponible.
+ *
+ * doc.meta: { size, hash, embedding: "proveedor/modelo/dim", format, title,
+ *   headings, pages?, chunker, collection, tags, team?, product?, language?,
+ *   audience?, chunks: [{ id, hash, page?, section?, breadcrumb? }] }.
+ * La colección sale del front-matter o del primer directorio (src/lib/doc-filters.ts).
+ * El hash de cada chunk cubre breadcrumb + texto (lo que se embebe).
+ * Si cambia el proveedor o el modelo de embeddings, el documento se re-embebe entero.
  *
  * Efectos secundarios relevantes:
- *  - TRUNCATE sobre doc y doc_chunk borra datos previos y reinicia IDs.
+ *  - Con --full se hace TRUNCATE sobre doc y doc_chunk (borra todo y reinicia IDs).
  *
- * Puntos de extensión:
- *  - Reemplazar TRUNCATE por upsert incremental.
- *  - Ejecutar inserts en batch y/o dentro de una transacción para mayor throughput.
+ * Throughput (env):
+ *  - EMBEDDING_BATCH_SIZE textos por request, EMBEDDING_CONCURRENCY requests
+ *    en vuelo y EMBEDDING_RPS como tope de requests por segundo (0 = sin tope).
  */
 
-import { readdir, readFile } from "fs/promises";
+import { createHash } from "crypto";
+import { watch } from "fs";
+import { readdir, readFile, stat } from "fs/promises";
 import path from "path";
 import { fileURLToPath } from "url";
 // Carga local opcional de variables de entorno cuando se ejecuta fuera de Docker Compose.
 import dotenv from "dotenv";
+import type { DocLabels } from "@/lib/doc-filters";
 
 // __filename/__dirname en módulos ESM: se derivan a partir de import.meta.url
 const __filename = fileURLToPath(import.meta.url);
@@ -38,12 +61,24 @@ const __dirname = path.dirname(__filename);
 dotenv.config();
 
 // Importes dinámicos para resolver alias ("@/") y evitar pre-carga cuando no es necesario.
-const { createEmbedding } = await import("@/lib/embeddings");
-const { query } = await import("@/lib/db");
-const { chunkText, toPgVector } = await import("@/lib/utils");
+const { createEmbeddings, verifyEmbeddingDimension } = await import(
+  "@/lib/embeddings"
+);
+const { embeddingCacheStats, pruneEmbeddingCache } = await import(
+  "@/lib/embedding-cache"
+);
+const { query, withTransaction } = await import("@/lib/db");
+const { ensureSchema } = await import("@/lib/schema");
+const { toPgVector } = await import("@/lib/utils");
+const { chunkMarkdown, chunkerSignature } = await import("@/lib/chunker");
+const { getLoader } = await import("@/lib/loaders");
+const { docLabels } = await import("@/lib/doc-filters");
+
+// Extensiones que indexa el script: las que tienen loader registrado.
+const isDocFile = (name: string) => getLoader(name) !== null;
 
 /**
- * Recorre recursivamente un directorio y devuelve paths relativos de archivos .md/.txt.
+ * Recorre recursivamente un directorio y devuelve paths relativos de archivos con loader.
  *
  * @param root     Ruta absoluta raíz desde la cual se arma el recorrido.
  * @param relative Subruta relativa (se usa en la recursión). Por defecto ".".
@@ -60,7 +95,7 @@ async function collectFiles(root: string, relative = "."): Promise<string[]> {
       files.push(
         ...(await collectFiles(root, path.join(relative, entry.name)))
       );
-    } else if (/\.(md|txt)$/i.test(entry.name)) {
+    } else if (isDocFile(entry.name)) {
       // Filtro por extensiones de interés; se almacenan rutas relativas.
       files.push(path.join(relative, entry.name));
     }
@@ -68,11 +103,412 @@ async function collectFiles(root: string, relative = "."): Promise<string[]> {
   return files;
 }
 
+// Filas por INSERT multi-row (3 parámetros por fila, lejos del tope de 65535).
+const INSERT_ROWS = 200;
+
+/** Formatea milisegundos como "1m05s" / "42s" para el ETA. */
+function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return m ? `${m}m${String(s).padStart(2, "0")}s` : `${s}s`;
+}
+
+/**
+ * Crea un reporter de progreso: chunks embebidos sobre el total, porcentaje y
+ * ETA según la velocidad observada. En TTY reescribe la misma línea.
+ */
+function createProgress(total: number) {
+  const startedAt = Date.now();
+  let lastLog = 0;
+  return (done: number) => {
+    const now = Date.now();
+    if (!process.stdout.isTTY && done < total && now - lastLog < 2_000) return;
+    lastLog = now;
+    const elapsed = now - startedAt;
+    const eta = done ? (elapsed / done) * (total - done) : 0;
+    const pct = total ? ((done / total) * 100).toFixed(1) : "100.0";
+    const line = `  [${done}/${total} chunks] ${pct}% · ETA ${formatDuration(eta)}`;
+    if (process.stdout.isTTY) process.stdout.write(`\r${line}`);
+    else console.log(line);
+  };
+}
+
+const sha256 = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+/** Referencia a un chunk persistido, en el orden del documento. */
+type ChunkRef = {
+  id: number;
+  hash: string;
+  page?: number;
+  section?: string;
+  breadcrumb?: string[];
+};
+
+/**
+ * Fragmento a persistir con su ubicación dentro del archivo. `text` va a
+ * doc_chunk.content; `embedText` (breadcrumb + texto) es lo que se embebe.
+ */
+type PlannedChunk = {
+  text: string;
+  embedText: string;
+  page?: number;
+  breadcrumb: string[];
+};
+
+/** Contenido de doc.meta escrito por este script (incluye colección y etiquetas). */
+type DocMeta = Partial<DocLabels> & {
+  size?: number;
+  hash?: string;
+  embedding?: string;
+  format?: string;
+  title?: string | null;
+  headings?: string[];
+  pages?: number;
+  chunker?: string;
+  chunks?: ChunkRef[];
+};
+
+/** Documento a (re)escribir: chunks reutilizados (id) o a embeber (null). */
+type DocPlan = {
+  relativePath: string;
+  status: "added" | "updated";
+  meta: DocMeta;
+  chunks: PlannedChunk[];
+  hashes: string[];
+  keptIds: (number | null)[];
+  staleIds: number[];
+  resetChunks: boolean;
+};
+
+/**
+ * Chunks reutilizables de un doc existente, agrupados por hash (un mismo texto
+ * puede repetirse dentro del archivo).
+ */
+function reusableChunks(refs: ChunkRef[] = []) {
+  const pool = new Map<string, number[]>();
+  for (const { id, hash } of refs) {
+    pool.set(hash, [...(pool.get(hash) ?? []), id]);
+  }
+  return pool;
+}
+
+/** Resultado de una pasada de sincronización (lo que imprime el reporte). */
+type SyncReport = {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  embedded: number;
+  reused: number;
+  deletedChunks: number;
+  cacheHits: number; // embeddings resueltos por la caché (LRU o embedding_cache)
+  cacheMisses: number; // embeddings pedidos al proveedor
+};
+
+/**
+ * Sincroniza la DB con los archivos de docsRoot.
+ *
+ * @param docsRoot     Raíz absoluta de documentos.
+ * @param embeddingKey "proveedor/modelo/dim" para detectar vectores de otro modelo.
+ * @param scope        Paths relativos a revisar; null = todo el árbol (y se
+ *                     borran los docs cuyo archivo ya no existe).
+ */
+async function syncDocuments(
+  docsRoot: string,
+  embeddingKey: string,
+  scope: string[] | null
+): Promise<SyncReport> {
+  const cacheBefore = embeddingCacheStats();
+  // Con scope, un path que ya no es un archivo legible cuenta como borrado.
+  const files: string[] = [];
+  if (scope) {
+    for (const relativePath of scope) {
+      const info = await stat(path.join(docsRoot, relativePath)).catch(() => null);
+      if (info?.isFile() && isDocFile(relativePath)) files.push(relativePath);
+    }
+  } else {
+    files.push(...(await collectFiles(docsRoot)));
+  }
+
+  const existing = new Map(
+    (
+      await query<{ id: number; path: string; meta: DocMeta | null }>(
+        scope
+          ? "SELECT id, path, meta FROM doc WHERE path = ANY($1::text[])"
+          : "SELECT id, path, meta FROM doc",
+        scope ? [scope] : []
+      )
+    ).rows.map((row) => [row.path, { id: row.id, meta: row.meta ?? {} }])
+  );
+
+  // 1) Diff por hash de archivo y de chunk. El total a embeber alimenta el ETA.
+  //    Fragmentación delegada a utilitario para mantener tamaño y solapamiento.
+  const plans: DocPlan[] = [];
+  let unchanged = 0;
+  const chunker = chunkerSignature();
+  for (const relativePath of files) {
+    const data = await readFile(path.join(docsRoot, relativePath));
+    const hash = sha256(data);
+    const prev = existing.get(relativePath);
+    const sameEmbedding = prev?.meta.embedding === embeddingKey;
+    if (
+      prev &&
+      sameEmbedding &&
+      prev.meta.hash === hash &&
+      prev.meta.chunker === chunker &&
+      // Docs indexados antes de las colecciones se releen (sin re-embeber).
+      prev.meta.collection !== undefined
+    ) {
+      unchanged++;
+      continue;
+    }
+
+    // Un archivo ilegible (PDF corrupto, DOCX protegido) no corta la ingesta:
+    // se avisa y se conserva lo indexado antes.
+    const loaded = await getLoader(relativePath)!
+      .load(data, relativePath)
+      .catch((e) => {
+        console.warn(`⚠ No se pudo leer ${relativePath}:`, e);
+        return null;
+      });
+    if (!loaded) continue;
+
+    const chunks: PlannedChunk[] = loaded.sections.flatMap((section) =>
+      chunkMarkdown(section.text).map((chunk) => ({ ...chunk, page: section.page }))
+    );
+    const hashes = chunks.map((c) => sha256(c.embedText));
+    // Docs de ingestas previas sin `embedding` en meta se re-embeben enteros.
+    const pool = reusableChunks(sameEmbedding ? prev?.meta.chunks : []);
+    const keptIds = hashes.map((h) => pool.get(h)?.shift() ?? null);
+
+    plans.push({
+      relativePath,
+      status: prev ? "updated" : "added",
+      meta: {
+        size: data.length,
+        hash,
+        embedding: embeddingKey,
+        format: loaded.format,
+        title: loaded.title,
+        headings: loaded.headings,
+        pages: loaded.pages,
+        chunker,
+        ...docLabels(relativePath, loaded.frontMatter),
+      },
+      chunks,
+      hashes,
+      keptIds,
+      // Lo que queda en el pool ya no aparece en el archivo.
+      staleIds: [...pool.values()].flat(),
+      // Vectores de otro modelo: el doc se re-embebe entero.
+      resetChunks: Boolean(prev) && !sameEmbedding,
+    });
+  }
+
+  const totalChunks = plans.reduce(
+    (n, p) => n + p.keptIds.filter((id) => id === null).length,
+    0
+  );
+  const progress = createProgress(totalChunks);
+  let embedded = 0;
+  let reused = 0;
+  let deletedChunks = 0;
+
+  // 2) Ingesta documento por documento (sólo agregados y modificados).
+  for (const plan of plans) {
+    const { relativePath, chunks, hashes, keptIds } = plan;
+    const pending = chunks.filter((_, i) => keptIds[i] === null);
+
+    // En TTY, salto de línea previo para no pisar la línea de progreso.
+    const lead = process.stdout.isTTY ? "\n" : "";
+    const mark = plan.status === "added" ? "+" : "~";
+    console.log(
+      `${lead}${mark} ${relativePath} (${chunks.length} fragmentos, ${pending.length} a embeber)`
+    );
+
+    // 2.1) Embeddings en lotes concurrentes (respetando EMBEDDING_RPS).
+    const base = embedded;
+    const vectors = await createEmbeddings(
+      pending.map((c) => c.embedText),
+      { onProgress: (done) => progress(base + done) }
+    );
+    embedded += pending.length;
+    reused += chunks.length - pending.length;
+
+    // 2.2) Doc + chunks en una transacción: un documento nunca queda a medias.
+    await withTransaction(async (client) => {
+      const upsert = await client.query<{ id: number }>(
+        `INSERT INTO doc(path, meta) VALUES ($1, $2::jsonb)
+         ON CONFLICT (path) DO UPDATE SET meta = EXCLUDED.meta
+         RETURNING id`,
+        [relativePath, JSON.stringify(plan.meta)]
+      );
+      const docId = upsert.rows[0].id;
+
+      // Chunks del doc que ya no se reutilizan (texto cambiado o modelo distinto).
+      if (plan.resetChunks) {
+        const removed = await client.query(
+          "DELETE FROM doc_chunk WHERE doc_id = $1",
+          [docId]
+        );
+        deletedChunks += removed.rowCount ?? 0;
+      } else if (plan.staleIds.length) {
+        const removed = await client.query(
+          "DELETE FROM doc_chunk WHERE id = ANY($1::int[])",
+          [plan.staleIds]
+        );
+        deletedChunks += removed.rowCount ?? 0;
+      }
+
+      // INSERT multi-row de los chunks nuevos; RETURNING respeta el orden de VALUES.
+      const newIds: number[] = [];
+      for (let start = 0; start < pending.length; start += INSERT_ROWS) {
+        const params: unknown[] = [];
+        const rows = pending.slice(start, start + INSERT_ROWS).map((chunk, i) => {
+          params.push(docId, chunk.text, toPgVector(vectors[start + i]));
+          const p = params.length;
+          return `($${p - 2}, $${p - 1}, $${p}::vector)`;
+        });
+        const inserted = await client.query<{ id: number }>(
+          `INSERT INTO doc_chunk(doc_id, content, embedding) VALUES ${rows.join(", ")} RETURNING id`,
+          params
+        );
+        newIds.push(...inserted.rows.map((row) => row.id));
+      }
+
+      // meta.chunks en orden del documento, con los ids reutilizados intactos.
+      // La ubicación se reescribe siempre: un chunk reutilizado puede cambiar de página.
+      const refs: ChunkRef[] = hashes.map((hash, i) => ({
+        id: keptIds[i] ?? (newIds.shift() as number),
+        hash,
+        page: chunks[i].page,
+        section: chunks[i].breadcrumb.at(-1),
+        breadcrumb: chunks[i].breadcrumb.length ? chunks[i].breadcrumb : undefined,
+      }));
+      await client.query("UPDATE doc SET meta = $2::jsonb WHERE id = $1", [
+        docId,
+        JSON.stringify({ ...plan.meta, chunks: refs }),
+      ]);
+    });
+  }
+
+  // 3) Documentos cuyo archivo ya no existe (con sus chunks).
+  const onDisk = new Set(files);
+  const removedDocs = [...existing].filter(([p]) => !onDisk.has(p));
+  if (removedDocs.length) {
+    if (process.stdout.isTTY) process.stdout.write("\n");
+    for (const [p] of removedDocs) console.log(`- ${p}`);
+    const ids = removedDocs.map(([, d]) => d.id);
+    await withTransaction(async (client) => {
+      const removed = await client.query(
+        "DELETE FROM doc_chunk WHERE doc_id = ANY($1::int[])",
+        [ids]
+      );
+      deletedChunks += removed.rowCount ?? 0;
+      await client.query("DELETE FROM doc WHERE id = ANY($1::int[])", [ids]);
+    });
+  }
+
+  if (plans.length && process.stdout.isTTY) process.stdout.write("\n");
+  const cacheAfter = embeddingCacheStats();
+  return {
+    added: plans.filter((p) => p.status === "added").length,
+    updated: plans.filter((p) => p.status === "updated").length,
+    unchanged,
+    removed: removedDocs.length,
+    embedded,
+    reused,
+    deletedChunks,
+    cacheHits:
+      cacheAfter.memoryHits + cacheAfter.dbHits -
+      (cacheBefore.memoryHits + cacheBefore.dbHits),
+    cacheMisses: cacheAfter.misses - cacheBefore.misses,
+  };
+}
+
+function printReport(report: SyncReport) {
+  console.log(
+    `Documentos: ${report.added} agregados, ${report.updated} actualizados, ` +
+      `${report.unchanged} sin cambios, ${report.removed} eliminados`
+  );
+  console.log(
+    `Chunks: ${report.embedded} embebidos, ${report.reused} reutilizados, ${report.deletedChunks} borrados`
+  );
+  if (report.cacheHits + report.cacheMisses > 0)
+    console.log(
+      `Caché de embeddings: ${report.cacheHits} hits, ${report.cacheMisses} misses`
+    );
+}
+
+// Ventana de debounce para ráfagas de guardado (editores que escriben varias veces).
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * Modo --watch: observa docsRoot (recursivo) y reindexa sólo los archivos que
+ * se crearon, modificaron o borraron. Los eventos se acumulan durante
+ * WATCH_DEBOUNCE_MS y las pasadas nunca se solapan. Si cambia un directorio
+ * (rename/borrado de carpeta) se hace una pasada completa del árbol.
+ */
+function watchDocuments(docsRoot: string, embeddingKey: string) {
+  const pendingPaths = new Set<string>();
+  let rescanAll = false;
+  let running = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+  };
+
+  async function flush() {
+    // Una pasada en curso: se reintenta al terminar la ventana siguiente.
+    if (running) return schedule();
+    const scope = rescanAll ? null : [...pendingPaths];
+    pendingPaths.clear();
+    rescanAll = false;
+    if (scope && scope.length === 0) return;
+
+    running = true;
+    try {
+      console.log(
+        `↻ Reindexando ${scope ? scope.join(", ") : "todo el árbol"}`
+      );
+      printReport(await syncDocuments(docsRoot, embeddingKey, scope));
+    } catch (e) {
+      // Un error (DB caída, proveedor lento) no corta el watcher.
+      console.error("Error reindexando:", e);
+    } finally {
+      running = false;
+    }
+  }
+
+  watch(docsRoot, { recursive: true }, (_event, filename) => {
+    if (!filename) {
+      rescanAll = true;
+    } else if (isDocFile(filename)) {
+      pendingPaths.add(path.normalize(filename));
+    } else if (!path.extname(filename)) {
+      // Probablemente un directorio: no sabemos qué archivos arrastró.
+      rescanAll = true;
+    } else {
+      return;
+    }
+    schedule();
+  });
+
+  console.log(`👀 Observando ${docsRoot} (Ctrl+C para salir)`);
+}
+
 /**
  * Punto de entrada del script.
- * Orquesta la validación de entorno, la limpieza, y la ingesta documento→chunks.
+ * Orquesta la validación de entorno, el diff contra la DB y la ingesta documento→chunks.
  */
 async function main() {
+  const full = process.argv.includes("--full");
+  const watchMode = process.argv.includes("--watch");
+
   // 1) Resolver la raíz de documentos. Default ../data respecto a \"scripts/\".
   const docsRoot = path.resolve(
     __dirname,
@@ -83,66 +519,46 @@ async function main() {
   // 2) Validaciones mínimas de entorno en runtime.
   if (!process.env.DATABASE_URL)
     throw new Error("DATABASE_URL ausente en runtime");
-  if (!process.env.OLLAMA_BASE_URL)
-    throw new Error("OLLAMA_BASE_URL ausente para embeddings");
+  // Bases creadas con un init.sql anterior: índices/tablas que la ingesta usa.
+  await ensureSchema();
 
   // 3) Verifica dimensión real del modelo de embeddings vs. lo esperado por el schema.
   //    Esto previene errores sutiles al castear hacia vector(N).
-  const probe = await createEmbedding("probe");
-  const actualDim = probe.length;
-  const expectedDim = Number(process.env.EMBEDDING_DIM ?? "768");
-  if (actualDim !== expectedDim) {
-    throw new Error(
-      `Dimensión inconsistente: esperado=${expectedDim} actual=${actualDim}. ` +
-        `Ajustá EMBEDDING_DIM y vector(N) en init.sql.`
-    );
-  }
+  const embedInfo = await verifyEmbeddingDimension();
+  const embeddingKey = `${embedInfo.provider}/${embedInfo.model}/${embedInfo.dim}`;
+  console.log(
+    `Embeddings: ${embedInfo.provider}/${embedInfo.model} (dim ${embedInfo.dim})`
+  );
+  // La caché se indexa por modelo+dimensión: lo de otros modelos ya no sirve.
+  const pruned = await pruneEmbeddingCache({
+    model: `${embedInfo.provider}/${embedInfo.model}`,
+    dim: embedInfo.dim,
+  });
+  if (pruned) console.log(`Caché de embeddings: ${pruned} entradas de otros modelos borradas`);
 
-  // 4) Descubrir archivos a ingerir.
+  // 4) Descubrir archivos a ingerir (en watch se admite arrancar con el árbol vacío).
   const files = await collectFiles(docsRoot);
-  if (files.length === 0) throw new Error(`Sin documentos en ${docsRoot}`);
+  if (files.length === 0 && !watchMode)
+    throw new Error(`Sin documentos en ${docsRoot}`);
 
-  console.log(`Procesando ${files.length} documentos desde ${docsRoot}`);
-
-  // 5) Limpieza full: ojo, esto borra y reinicia IDs. Útil para re-ingestas determinísticas.
-  await query("TRUNCATE doc_chunk RESTART IDENTITY CASCADE", []);
-  await query("TRUNCATE doc RESTART IDENTITY CASCADE", []);
-
-  // 6) Ingesta documento por documento.
-  for (const relativePath of files) {
-    const absolute = path.join(docsRoot, relativePath);
-
-    // Leer archivo completo en memoria. Para archivos muy grandes, considerar streaming + chunking.
-    const content = await readFile(absolute, "utf8");
-
-    // Fragmentación: delegada a utilitario para mantener consistencia de tamaño y solapamiento.
-    const chunks = chunkText(content);
-
-    // Registrar el documento padre con metadatos básicos (p.ej., tamaño en bytes/caracteres).
-    const docInsert = await query<{ id: number }>(
-      `INSERT INTO doc(path, meta) VALUES ($1, $2::jsonb) RETURNING id`,
-      [relativePath, JSON.stringify({ size: content.length })]
-    );
-    const docId = docInsert.rows[0].id;
-
-    console.log(`→ ${relativePath} (${chunks.length} fragmentos)`);
-
-    // 6.1) Por cada chunk: embed → vector → insert.
-    for (const chunk of chunks) {
-      // Obtener el embedding del fragmento. Considerar throttling si el backend limita QPS.
-      const emb = await createEmbedding(chunk);
-      // Convertir a representación textual compatible con el tipo vector(N) de Postgres.
-      const vec = toPgVector(emb);
+  console.log(
+    `Procesando ${files.length} documentos desde ${docsRoot} (${full ? "full" : "incremental"})`
+  );
 
-      await query(
-        `INSERT INTO doc_chunk(doc_id, content, embedding)
-         VALUES ($1, $2, $3::vector)`,
-        [docId, chunk, vec]
-      );
-    }
+  // 5) Con --full se limpia todo (borra y reinicia IDs) y se re-embebe desde cero.
+  if (full) {
+    await query("TRUNCATE doc_chunk RESTART IDENTITY CASCADE", []);
+    await query("TRUNCATE doc RESTART IDENTITY CASCADE", []);
   }
 
+  // 6) Pasada completa del árbol y reporte final.
+  printReport(await syncDocuments(docsRoot, embeddingKey, null));
   console.log("✅ Ingesta completada");
+
+  // 7) En watch el proceso sigue vivo; el server ve los chunks nuevos en la
+  //    próxima búsqueda porque searchDocuments consulta la DB en cada llamada.
+  if (watchMode) return watchDocuments(docsRoot, embeddingKey);
+
   // Cerrar el proceso explícitamente. En entornos controlados puede omitirse.
   process.exit(0);
 }
@@ -1,5 +1,5 @@
 // ──────────────────────────────────────────────────────────────────────────────
-// File: scripts/search-cli.ts — Búsqueda rápida en CLI contra pgvector
+// File: scripts/search-cli.ts — Búsqueda rápida en CLI (vector, texto o híbrida)
 // ──────────────────────────────────────────────────────────────────────────────
 
 import path from "path";
@@ -15,37 +15,45 @@ dotenv.config({
 });
 
 // Importes dinámicos para respetar alias ESM "@/"
-const { query } = await import("@/lib/db");
-const { createEmbedding } = await import("@/lib/embeddings");
-const { toPgVector } = await import("@/lib/utils");
+const { searchDocuments, searchModes } = await import("@/lib/rag");
 
-// Tipado de la fila de resultado en CLI (snippet corto + similitud)
-type CliRow = {
-  id: number;
-  doc_id: number;
-  snippet: string;
-  similarity: number;
-};
+type SearchMode = (typeof searchModes)[number];
 
-// Construcción de la consulta desde argv o valor por defecto
-const q = process.argv.slice(2).join(" ") || "onboarding";
-const emb = await createEmbedding(q);
-const vec = toPgVector(emb);
+// Argumentos: `--mode <vector|text|hybrid>`, `--collection <nombre>` y
+// `--tag <etiqueta>` (repetible; también --flag=valor); el resto es la consulta.
+const args = process.argv.slice(2);
+let mode: SearchMode | undefined;
+const filters: { collection?: string; tags?: string[] } = {};
+const words: string[] = [];
+for (let i = 0; i < args.length; i++) {
+  const flag = /^--(mode|collection|tag)(?:=(.+))?$/.exec(args[i]);
+  if (!flag) {
+    words.push(args[i]);
+    continue;
+  }
+  const value = flag[2] ?? args[++i];
+  if (flag[1] === "collection") filters.collection = value;
+  else if (flag[1] === "tag") filters.tags = [...(filters.tags ?? []), value];
+  else if (!searchModes.includes(value as SearchMode)) {
+    console.error(`--mode inválido: ${value} (usar ${searchModes.join(", ")})`);
+    process.exit(1);
+  } else mode = value as SearchMode;
+}
+const q = words.join(" ") || "onboarding";
 
-// Consulta: top-5 por proximidad vectorial (distancia coseno). LEFT() genera snippet.
-const sql = `
-  SELECT dc.id::int AS id,
-         dc.doc_id::int AS doc_id,
-         LEFT(dc.content, 160) AS snippet,
-         (1 - (dc.embedding <=> $1::vector))::float8 AS similarity
-  FROM doc_chunk dc
-  ORDER BY dc.embedding <=> $1::vector
-  LIMIT 5
-`;
-const res = await query<CliRow>(sql, [vec]);
-const rows = res.rows.map((r) => ({
-  ...r,
-  similarity: Number(r.similarity.toFixed(3)),
+// Mismo pipeline que search_docs: top-5 sin umbral para ver también los flojos.
+const results = await searchDocuments(q, {
+  limit: 5,
+  minSimilarity: 0,
+  mode,
+  filters,
+});
+const rows = results.map((r) => ({
+  id: r.id,
+  path: r.path,
+  similarity: r.similarity,
+  score: r.score ?? null,
+  snippet: r.content.replace(/\s+/g, " ").slice(0, 100),
 }));
 console.table(rows); // salida tabular amigable en consola
 process.exit(0);
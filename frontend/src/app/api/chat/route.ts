@@ -46,3 +46,26 @@ export async function POST(req: NextRequest) {
     },
   });
 }
+
+// Estado persistido de una conversación (auth + acción pendiente) para
+// restaurar la UI tras recargar la página.
+export async function GET(req: NextRequest) {
+  const { findSession } = await import("@/lib/session-store");
+
+  const conversationId = req.nextUrl.searchParams.get("conversationId");
+  if (!conversationId) {
+    return new Response(JSON.stringify({ error: "conversationId es obligatorio" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const session = await findSession(conversationId);
+  return new Response(
+    JSON.stringify({
+      authenticatedUser: session?.authenticatedUser ?? null,
+      pendingAction: session?.pendingAction ?? null,
+    }),
+    { headers: { "Content-Type": "application/json", "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,18 @@
+// frontend/src/app/api/embeddings/stats/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Hits/misses de la caché de embeddings de este proceso (LRU + embedding_cache).
+export async function GET() {
+  const { embeddingCacheStats } = await import("@/lib/embedding-cache");
+
+  const stats = embeddingCacheStats();
+  const lookups = stats.memoryHits + stats.dbHits + stats.misses;
+  return new Response(
+    JSON.stringify({
+      ...stats,
+      hitRate: lookups ? Number(((lookups - stats.misses) / lookups).toFixed(3)) : null,
+    }),
+    { headers: { "Content-Type": "application/json", "Cache-Control": "no-store" } }
+  );
+}
@@ -4,6 +4,8 @@
 import { useCallback, useMemo } from "react";
 import type { FormEvent, KeyboardEvent } from "react";
 import { MessageCard } from "@/components/MessageCard";
+import { CitationList } from "@/components/CitationList";
+import { ConfirmationCard } from "@/components/ConfirmationCard";
 import { AgentStatusPanel } from "@/components/AgentStatusPanel";
 import { TraceTimeline } from "@/components/TraceTimeline";
 import { useAgentConversation } from "@/hooks/useAgentConversation";
@@ -36,6 +38,7 @@ export default function HomePage() {
     suggestions,
     submitCurrentMessage,
     sendMessage,
+    confirmPendingAction,
     resetConversation,
   } = useAgentConversation();
 
@@ -113,6 +116,11 @@ export default function HomePage() {
                     kind={item.role === "user" ? "user" : "assistant"}
                     title={item.role === "user" ? "Vos" : "Laburen Agent"}
                     streaming={item.streaming && isStreaming}
+                    footer={
+                      item.citations?.length ? (
+                        <CitationList citations={item.citations} />
+                      ) : null
+                    }
                   >
                     {item.content}
                   </MessageCard>
@@ -126,6 +134,14 @@ export default function HomePage() {
               );
             })
           )}
+          {agentState.pendingAction ? (
+            <ConfirmationCard
+              action={agentState.pendingAction}
+              disabled={isStreaming}
+              onConfirm={() => void confirmPendingAction(true)}
+              onCancel={() => void confirmPendingAction(false)}
+            />
+          ) : null}
         </section>
 
         <aside className="sidebar">
@@ -168,7 +168,7 @@ function formatSearchSummary(call: ClientToolCall) {
   const extras: string[] = [];
   if (result?.question) extras.push(`Consulta: "${String(result.question)}"`);
   if (matches[0]?.path) extras.push(`Ejemplo: ${matches[0].path}`);
-  if (result?.source === "static") extras.push("Fuente: compendio interno");
+  if (result?.source === "static") extras.push("Fuente: corpus local (modo degradado)");
   return [header, extras.join(" • ")].filter(Boolean).join("\n");
 }
 
@@ -0,0 +1,36 @@
+"use client";
+
+import type { DocCitation } from "@/lib/types";
+import { formatLocation } from "@/lib/utils";
+
+interface CitationListProps {
+  citations: DocCitation[];
+}
+
+// Fuentes de una respuesta RAG: cada ítem corresponde a la cita inline [path#id].
+export function CitationList({ citations }: CitationListProps) {
+  return (
+    <div className="citation-list">
+      <span className="small-label">Fuentes</span>
+      <ol>
+        {citations.map((citation) => (
+          <li
+            key={`${citation.path}#${citation.id}`}
+            id={`cita-${citation.id}`}
+            title={citation.snippet}
+          >
+            <code>
+              {citation.path}#{citation.id}
+            </code>
+            {citation.page || citation.section || citation.breadcrumb ? (
+              <span>{formatLocation(citation.path, citation)}</span>
+            ) : null}
+            <span className="muted">
+              similitud {citation.similarity.toFixed(2)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
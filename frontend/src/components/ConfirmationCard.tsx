@@ -0,0 +1,45 @@
+"use client";
+
+import type { PendingAction } from "@/lib/types";
+
+interface ConfirmationCardProps {
+  action: PendingAction;
+  disabled?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Acción propuesta por el agente que espera el visto bueno del usuario.
+export function ConfirmationCard({
+  action,
+  disabled,
+  onConfirm,
+  onCancel,
+}: ConfirmationCardProps) {
+  return (
+    <div className="confirmation-card" role="alertdialog" aria-live="polite">
+      <div className="confirmation-header">
+        <span className="badge pending">Confirmación requerida</span>
+        <code>{action.name}</code>
+      </div>
+      <p>{action.summary}</p>
+      <details>
+        <summary className="muted">Ver input</summary>
+        <pre>{JSON.stringify(action.input, null, 2)}</pre>
+      </details>
+      <div className="confirmation-actions">
+        <button type="button" onClick={onConfirm} disabled={disabled}>
+          Confirmar
+        </button>
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={onCancel}
+          disabled={disabled}
+        >
+          Cancelar
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -10,10 +10,18 @@ interface Props {
   title: string;
   meta?: ReactNode;
   children: ReactNode;
+  footer?: ReactNode;
   streaming?: boolean;
 }
 
-export function MessageCard({ kind, title, meta, children, streaming }: Props) {
+export function MessageCard({
+  kind,
+  title,
+  meta,
+  children,
+  footer,
+  streaming,
+}: Props) {
   return (
     <div className={clsx("message-card", kind, streaming && "streaming")}> 
       <div className="meta">
@@ -21,6 +29,7 @@ export function MessageCard({ kind, title, meta, children, streaming }: Props) {
         {meta}
       </div>
       <div className="content">{children}</div>
+      {footer}
     </div>
   );
 }
@@ -7,13 +7,17 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   createClientConversationId,
+  loadStoredConversationId,
   parseAgentEvent,
   resolveApiUrl,
+  storeConversationId,
 } from "@/lib/client-agent"; // Nota: asegurate de que el alias/resolución de rutas apunte a este módulo.
 import type {
   AgentStateUpdate,
   ClientTimelineItem,
   ClientToolCall,
+  DocCitation,
+  PendingAction,
 } from "@/lib/types";
 
 // Estados posibles del ciclo de vida de la conversación
@@ -31,7 +35,7 @@ const decoder = new TextDecoder();
  * vía SSE (Server-Sent Events), gestionando:
  * - conversationId (correlación en backend)
  * - timeline (mensajes, pensamientos y tool calls)
- * - estado del agente (p.ej., usuario autenticado)
+ * - estado del agente (p.ej., usuario autenticado, acción pendiente de confirmar)
  * - envío de mensajes y lectura del stream SSE (tokenes, eventos)
  * - control de abort/cancel para evitar fugas de memoria
  */
@@ -49,14 +53,39 @@ export function useAgentConversation() {
   // Referencia al AbortController del stream actual; permite cancelar al desmontar o reiniciar
   const abortRef = useRef<AbortController | null>(null);
 
-  // Al montar: genera conversationId si no existe y se asegura de abortar el stream al desmontar
+  // Al montar: reutiliza el conversationId persistido (o genera uno) y se asegura de abortar el stream al desmontar
   useEffect(() => {
-    setConversationId((prev) => prev ?? createClientConversationId());
+    setConversationId(
+      (prev) =>
+        prev ?? loadStoredConversationId() ?? createClientConversationId()
+    );
     return () => {
       abortRef.current?.abort();
     };
   }, []);
 
+  // Persiste el conversationId y restaura el estado del backend (auth y acción
+  // pendiente) para que una recarga no pierda una confirmación en curso.
+  useEffect(() => {
+    if (!conversationId) return;
+    storeConversationId(conversationId);
+    const controller = new AbortController();
+    fetch(
+      resolveApiUrl(
+        `/api/chat?conversationId=${encodeURIComponent(conversationId)}`
+      ),
+      { signal: controller.signal }
+    )
+      .then((response) => (response.ok ? response.json() : null))
+      .then((state: AgentStateUpdate | null) => {
+        if (state) setAgentState((prev) => ({ ...prev, ...state }));
+      })
+      .catch(() => {
+        // sin estado previo: la sesión arranca vacía
+      });
+    return () => controller.abort();
+  }, [conversationId]);
+
   // ─────────────────────────── Helpers de timeline ───────────────────────────
   // updateTimeline: mutación atómica del estado timeline con patrón de función
   const updateTimeline = useCallback(
@@ -76,7 +105,7 @@ export function useAgentConversation() {
       id: string,
       role: "user" | "assistant",
       updater: (content: string) => string,
-      options?: { streaming?: boolean }
+      options?: { streaming?: boolean; citations?: DocCitation[] }
     ) => {
       updateTimeline((current) => {
         const next = [...current];
@@ -90,6 +119,7 @@ export function useAgentConversation() {
             role,
             content: updater(""),
             streaming: options?.streaming ?? role === "assistant",
+            citations: options?.citations,
           });
           return next;
         }
@@ -99,6 +129,7 @@ export function useAgentConversation() {
           ...item,
           content: updater(item.content),
           streaming: options?.streaming ?? item.streaming,
+          citations: options?.citations ?? item.citations,
         };
         return next;
       });
@@ -158,7 +189,8 @@ export function useAgentConversation() {
   // ───────────────────────── Manejo de eventos del agente ─────────────────────────
   /**
    * handleAgentEvent: despacha eventos SSE parseados hacia actualizaciones de estado/timeline.
-   * Reconoce: thought, tool, tool_result, assistant_message, token, assistant_done, state, error.
+   * Reconoce: thought, tool, tool_result, assistant_message, token, assistant_done,
+   * confirmation_required, state, error.
    */
   const handleAgentEvent = useCallback(
     (event: NonNullable<ReturnType<typeof parseAgentEvent>>) => {
@@ -195,14 +227,21 @@ export function useAgentConversation() {
           break;
         }
         case "assistant_done": {
-          const payload = data as { id: string };
+          const payload = data as { id: string; citations?: DocCitation[] };
           upsertMessage(payload.id, "assistant", (current) => current, {
             streaming: false,
+            citations: payload.citations,
           });
           break;
         }
+        case "confirmation_required": {
+          const payload = data as PendingAction;
+          setAgentState((prev) => ({ ...prev, pendingAction: payload }));
+          break;
+        }
         case "state": {
-          setAgentState(data as AgentStateUpdate); // e.g., authenticatedUser
+          // merge parcial: cada evento trae sólo lo que cambió (auth, acción pendiente)
+          setAgentState((prev) => ({ ...prev, ...(data as AgentStateUpdate) }));
           break;
         }
         case "error": {
@@ -355,6 +394,16 @@ export function useAgentConversation() {
     return sendMessage(pending);
   }, [input, sendMessage]);
 
+  /**
+   * confirmPendingAction(approve): responde a la acción pendiente desde la UI.
+   * - Envía un "sí"/"no" explícito que el backend interpreta como confirmación.
+   */
+  const confirmPendingAction = useCallback(
+    (approve: boolean) =>
+      sendMessage(approve ? "Sí, confirmo." : "No, cancelá la acción."),
+    [sendMessage]
+  );
+
   /**
    * resetConversation(): reinicia por completo la sesión/estado en el cliente.
    * - Genera nuevo conversationId y limpia timeline/estado/errores.
@@ -421,6 +470,7 @@ export function useAgentConversation() {
     suggestions,
     sendMessage,
     submitCurrentMessage,
+    confirmPendingAction,
     resetConversation,
   } as const;
 }
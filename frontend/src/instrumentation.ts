@@ -0,0 +1,38 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/instrumentation.ts — Chequeos de arranque del server (Next.js)
+// ──────────────────────────────────────────────────────────────────────────────
+
+/**
+ * register(): Next.js lo invoca una vez al iniciar el server.
+ * - Verifica que la dimensión del proveedor de embeddings coincida con
+ *   EMBEDDING_DIM: una diferencia rompe cada búsqueda contra vector(N).
+ * - Si el proveedor no responde todavía (p.ej. Ollama levantando en Compose)
+ *   sólo se advierte; la búsqueda degradará al compendio estático.
+ * - Aplica las migraciones de src/lib/schema.ts: si una falla el server no
+ *   arranca; si la DB no responde se advierte y se reintenta en la ingesta.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { SchemaMigrationError, ensureSchema } = await import("@/lib/schema");
+  try {
+    const applied = await ensureSchema();
+    console.log(`[startup] schema al día (${applied.join(", ")})`);
+  } catch (e) {
+    if (e instanceof SchemaMigrationError) throw e;
+    console.warn(`[startup] no pude verificar el schema: ${String(e)}`);
+  }
+
+  const { EmbeddingDimensionError, verifyEmbeddingDimension } = await import(
+    "@/lib/embeddings"
+  );
+  try {
+    const info = await verifyEmbeddingDimension();
+    console.log(
+      `[startup] embeddings ${info.provider}/${info.model}: dim=${info.dim} OK`
+    );
+  } catch (e) {
+    if (e instanceof EmbeddingDimensionError) throw e;
+    console.warn(`[startup] no pude verificar embeddings: ${String(e)}`);
+  }
+}
@@ -0,0 +1,36 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/agent.test.ts — Confirmación de acciones pendientes (confirmRe)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { confirmRe } from "@/lib/agent";
+
+describe("confirmRe", () => {
+  it("acepta afirmaciones cortas, solas o encadenadas", () => {
+    for (const text of [
+      "sí",
+      "si",
+      "Sí, confirmo.",
+      "dale",
+      "ok",
+      "okey!",
+      "de acuerdo",
+      "  Adelante  ",
+      "sí dale hacelo",
+    ])
+      assert.ok(confirmRe.test(text), text);
+  });
+
+  it("rechaza condicionales y mensajes con más contenido", () => {
+    for (const text of [
+      "si mañana llueve",
+      "sí, pero cambiá el email",
+      "no",
+      "dale, y agendá otra cosa",
+      "confirmo que no",
+      "",
+    ])
+      assert.ok(!confirmRe.test(text), text);
+  });
+});
@@ -8,16 +8,28 @@
  *
  * Puntos clave del diseño:
  * - Estado de conversación: historial + usuario autenticado en session-store.
+ *   Los turnos viejos se condensan en una memoria resumida (memory.ts) que se
+ *   inyecta en el system prompt.
  * - Emisor de eventos (AgentEventEmitter) para UI: pensamiento, tokens,
- *   llamadas a tools y resultados.
- * - Planificación con JSON estricto (zod). Fallback robusto cuando el LLM
- *   incumple el contrato.
- * - Fast-path: intents comunes detectados con regex en español, evitando
- *   round-trips al LLM.
- * - LLM loop con reintento de parseo (jsonrepair) y "retry prompt".
+ *   llamadas a tools y resultados. Los tokens del LLM (modo nativo y síntesis
+ *   RAG) se reenvían a medida que llegan del proveedor.
+ * - Planificación con function calling nativo (tools OpenAI-style generadas
+ *   desde el registro) o, como fallback, JSON estricto (zod) en texto. El
+ *   backend de chat se resuelve en llm.ts (OpenRouter o guion offline).
+ *   Fallback robusto cuando el LLM incumple el contrato.
+ * - Fast-path: intents comunes detectados con regex en español (registro en
+ *   intents.ts), evitando round-trips al LLM. Un mensaje con varios pedidos
+ *   se ejecuta cláusula por cláusula y se responde con un resumen combinado.
+ * - LLM loop con reintento de parseo (jsonrepair) y "retry prompt". Cada
+ *   resultado de tool vuelve al planificador para encadenar varias tools por
+ *   turno. El historial guarda las llamadas como mensajes `tool` estructurados.
  *
  * Seguridad/consistencia:
  * - Validación de inputs por herramienta con zod (def.schema.parse).
+ * - Tools con `requiresConfirmation` quedan como acción pendiente en la
+ *   sesión hasta que el usuario confirme (evento confirmation_required).
+ * - Inputs incompletos de tools con `slotPrompts` abren un diálogo que pide
+ *   los campos faltantes de a uno (session.slotFilling).
  * - Normalización de fechas para mensajes humanos.
  * - Límite de iteraciones para evitar bucles.
  */
@@ -25,13 +37,41 @@
 import { randomUUID } from "crypto";
 import { z } from "zod";
 import { jsonrepair } from "jsonrepair";
-import { delay } from "@/lib/utils";
 import { getSession, saveSession } from "@/lib/session-store";
-import { tools } from "@/lib/tools";
+import { toolResult, tools, toolStatus } from "@/lib/tools";
 // ToolName: unión de las claves disponibles en el registro de tools.
 type ToolName = keyof typeof tools;
-import type { AgentMessage } from "@/lib/types";
-import { openrouterChat } from "@/lib/openrouter";
+import type {
+  AgentMessage,
+  AgentToolMessage,
+  DocCitation,
+  PendingAction,
+} from "@/lib/types";
+import { chatComplete, chatStream } from "@/lib/llm";
+import {
+  ChatChainError,
+  type ChatCompletion,
+  type ChatMessage,
+} from "@/lib/openrouter";
+import {
+  buildToolCatalogue,
+  invalidFields,
+  isValidField,
+  toChatTools,
+  zodToJsonSchema,
+} from "@/lib/tool-schema";
+import { buildCitations, synthesizeAnswer } from "@/lib/rag-answer";
+import { compactHistory, conversationTurn, memoryContext } from "@/lib/memory";
+import {
+  activeIntents,
+  emailRe,
+  matchIntent,
+  parseDueAtSpanish,
+  splitCommands,
+  stripPunct,
+} from "@/lib/intents";
+import { listCollections, type DocSearchResult } from "@/lib/rag";
+import { getEnv } from "@/lib/env";
 
 // ----------------------------- Tipos de plan ------------------------------
 // Plan es la "orden" que el LLM devuelve: ejecutar tool o responder texto.
@@ -56,11 +96,18 @@ export type AgentEvent =
       };
     }
   | { event: "assistant_message"; data: { id: string } }
-  | { event: "assistant_done"; data: { id: string } }
+  | {
+      event: "assistant_done";
+      data: { id: string; citations?: DocCitation[] };
+    }
   | { event: "token"; data: { id: string; value: string } }
+  | { event: "confirmation_required"; data: PendingAction }
   | {
       event: "state";
-      data: { authenticatedUser?: { id: number; name: string } | null };
+      data: {
+        authenticatedUser?: { id: number; name: string } | null;
+        pendingAction?: PendingAction | null;
+      };
     }
   | { event: "error"; data: { message: string } };
 
@@ -91,52 +138,107 @@ const PlanSchema = z.discriminatedUnion("action", [
   }),
 ]);
 
-// Prompt base con reglas de negocio y catálogo de tools.
+// Reglas de negocio compartidas por ambos modos de planificación.
+const AGENT_RULES = `1) No respondas al usuario hasta autenticar con verify_passcode.
+2) Antes de leads/notas, confirma autenticación.
+3) Usa search_docs para contexto de /data cuando haga falta; si la pregunta apunta a un área concreta, acotá con filters (collection, tags) usando las colecciones listadas.
+4) Español neutro, profesional y claro.
+5) Al responder con información de search_docs, citá cada fuente inline como [path#id] usando los resultados de la tool.
+6) Podés encadenar varias tools en un mismo turno: tras cada resultado de tool decidí si hace falta otra tool o si ya podés responder.`;
+
+// Prompt base (modo JSON en texto) con catálogo generado desde el registro.
 const BASE_PROMPT = `Eres Laburen Agent, un agente de producto que ayuda a equipos comerciales.
 Devuelve SOLO un JSON válido, sin texto extra, con: thought, action, tool, final_response.
-1) No respondas al usuario hasta autenticar con verify_passcode.
-2) Antes de leads/notas, confirma autenticación.
-3) Usa search_docs para contexto de /data cuando haga falta.
-4) Si dudas del formato, reintenta devolviendo SOLO JSON válido.
-5) Español neutro, profesional y claro.
+${AGENT_RULES}
+7) Si dudas del formato, reintenta devolviendo SOLO JSON válido. Para responder usá action "respond".
 
 Tools (usa siempre JSON en tool.input):
-- verify_passcode { "name": string, "passcode": string }
-- create_lead { "name": string, "email": string, "source"?: string }
-- record_note { "text": string }
-- list_notes { "limit"?: number }
-- delete_note { "noteId": number }
-- list_leads { "limit"?: number }
-- schedule_followup { "title": string, "dueAt"?: string, "notes"?: string }
-- list_followups { "status"?: "pending"|"completed", "limit"?: number }
-- complete_followup { "followUpId": number }
-- search_docs { "question": string }
+${buildToolCatalogue(tools)}
 
 Ejemplo válido:
 {"thought":"Voy a verificar passcode","action":"tool","tool":{"name":"verify_passcode","input":{"name":"Carla","passcode":"123456"}},"final_response":null}`;
 
+// Prompt para function calling nativo: las tools viajan como definiciones.
+const NATIVE_PROMPT = `Eres Laburen Agent, un agente de producto que ayuda a equipos comerciales.
+Usá las tools disponibles (function calling) para obtener datos o ejecutar acciones. Cuando tengas la respuesta final, respondé al usuario en texto plano, sin JSON.
+${AGENT_RULES}`;
+
+// Definiciones OpenAI-style derivadas de los schemas zod del registro.
+const CHAT_TOOLS = toChatTools(tools);
+
+// Modo de planificación: "json" (planes en texto, funciona con cualquier
+// modelo) salvo que LLM_TOOL_MODE=native active tool_calls.
+type ToolMode = "native" | "json";
+const resolveToolMode = (): ToolMode => getEnv().LLM_TOOL_MODE;
+
+// Colecciones indexadas (con sus tags) para que el planner elija filtros de
+// search_docs. Sin DB o sin colecciones el bloque se omite.
+async function collectionsContext(): Promise<string> {
+  try {
+    const collections = await listCollections();
+    if (!collections.length) return "";
+    const lines = collections.map(
+      (c) =>
+        `- ${c.collection} (${c.docs} doc${c.docs === 1 ? "" : "s"})${
+          c.tags.length ? `: tags ${c.tags.join(", ")}` : ""
+        }`
+    );
+    return `COLECCIONES DE DOCUMENTACIÓN (filters de search_docs):\n${lines.join("\n")}`;
+  } catch (err) {
+    console.warn("[agent] no se pudieron listar las colecciones", err);
+    return "";
+  }
+}
+
 // ------------------------------ Utilidades LLM -----------------------------
 // Mapeo de historial conversacional a formato del proveedor OpenRouter.
-type ORMessage = { role: "user" | "assistant"; content: string };
-const buildMessages = (history: AgentMessage[]): ORMessage[] =>
-  history.map((m) => ({ role: m.role, content: m.content }));
-
-// Particiona texto en trozos pequeños para streaming; evita buffers grandes.
-function chunkResponse(text: string) {
-  const words = text.split(/(\s+)/).filter(Boolean);
-  const chunks: string[] = [];
-  let buf = "";
-  for (const w of words) {
-    buf += w;
-    if (buf.length >= 18) {
-      // umbral simple, configurable
-      chunks.push(buf);
-      buf = "";
+// - native: mensajes `tool` consecutivos → un assistant con tool_calls seguido
+//   de un mensaje tool por llamada (mismo id).
+// - json: el modelo no conoce tool_calls; cada llamada viaja como texto de
+//   rol user ("TOOL_RESULT …") para que no la tome como dicha por él.
+const toolPayload = (m: AgentToolMessage) =>
+  JSON.stringify(m.status === "error" && m.result == null ? { error: m.error } : m.result);
+
+const buildMessages = (
+  history: AgentMessage[],
+  mode: ToolMode
+): ChatMessage[] => {
+  const out: ChatMessage[] = [];
+  for (let i = 0; i < history.length; i++) {
+    const m = history[i];
+    if (m.role !== "tool") {
+      out.push({ role: m.role, content: m.content });
+      continue;
+    }
+    if (mode === "json") {
+      out.push({
+        role: "user",
+        content: `TOOL_CALL ${m.name}: ${JSON.stringify(m.input)}\nTOOL_RESULT ${m.name} (${m.status}): ${toolPayload(m)}`,
+      });
+      continue;
+    }
+    const group: AgentToolMessage[] = [];
+    for (; i < history.length; i++) {
+      const next = history[i];
+      if (next.role !== "tool") break;
+      group.push(next);
+    }
+    i--; // el for externo avanza al primer mensaje que no es tool
+    out.push({
+      role: "assistant",
+      content: "",
+      toolCalls: group.map((t) => ({
+        id: t.callId,
+        name: t.name,
+        arguments: JSON.stringify(t.input ?? {}),
+      })),
+    });
+    for (const t of group) {
+      out.push({ role: "tool", toolCallId: t.callId, content: toolPayload(t) });
     }
   }
-  if (buf) chunks.push(buf);
-  return chunks.length ? chunks : [text];
-}
+  return out;
+};
 
 // -------------------------- Parseo robusto de Plan -------------------------
 // Intenta parsear JSON exacto. Si falla, recorta al bloque {...} más amplio.
@@ -179,199 +281,197 @@ function fallbackPlan(reason: string, authenticated: boolean): RespondPlan {
   };
 }
 
-// Emite un mensaje de asistente con tokens en streaming. Simula latencia.
-async function emitStreamingText(emit: AgentEventEmitter, text: string) {
-  const id = randomUUID();
-  emit({ event: "assistant_message", data: { id } });
-  for (const chunk of chunkResponse(text)) {
-    emit({ event: "token", data: { id, value: chunk } });
-    await delay(30); // delay corto para UX
+// ---------------------------- Planificadores LLM ---------------------------
+// Cada planificador informa qué modelo de la cadena respondió (para el trace).
+type PlannerResult = { plans: Plan[]; model: string };
+
+// Modo JSON: parseo robusto del texto + retry con prompt más estricto. Si el
+// retry falla en el proveedor se devuelve null y el turno usa el fallback.
+async function planFromJson(
+  contextual: string,
+  messages: ChatMessage[],
+  turn: number
+): Promise<{ plan: Plan | null; model: string }> {
+  const first = await chatComplete({
+    system: `${BASE_PROMPT}\n\n${contextual}`,
+    messages,
+    temperature: 0,
+    maxTokens: 1024,
+    purpose: "planning",
+    turn,
+  });
+  const plan = parsePlan(first.content);
+  if (plan) return { plan, model: first.model };
+  try {
+    const retry = await chatComplete({
+      system: `${BASE_PROMPT}\n\nRESPONDE SOLO JSON plano (sin \`\`\`)`,
+      messages,
+      temperature: 0,
+      maxTokens: 512,
+      purpose: "planning",
+      turn,
+    });
+    return { plan: parsePlan(retry.content), model: retry.model };
+  } catch (err) {
+    console.warn("[agent] retry de plan JSON falló", err);
+    return { plan: null, model: first.model };
   }
-  emit({ event: "assistant_done", data: { id } });
-  return id;
 }
 
-// ------------------------------ FAST-PATHS ---------------------------------
-// Heurísticas con regex en español para reducir latencia y costo.
-
-// Normaliza extremos y espacios; deja caracteres relevantes para intent.
-const stripPunct = (s: string) =>
-  s
-    .replace(/^[^A-Za-zÁÉÍÓÚÑáéíóúñ]+|[^A-Za-zÁÉÍÓÚÑáéíóúñ0-9'() :.,-]+$/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-
-// -------------------------- Intent: verify_passcode ------------------------
-// Extrae nombre y passcode de frases del tipo "Soy Ana, mi passcode es 123".
-function extractPasscodeIntent(
-  text: string
-): { name: string; passcode: string } | null {
-  const nameRe =
-    /\b(?:soy|me llamo|mi nombre es)\s+([A-Za-zÁÉÍÓÚÑáéíóúñ' -]{1,60}?)(?=[,.;:!?)]|\s|$)/i;
-  const passRe =
-    /\b(?:passcode|c(?:ó|o)digo|clave)\s*(?:es|:)?\s*([A-Za-z0-9-]{3,64})\b/i;
-  const nameMatch = nameRe.exec(text);
-  const passMatch = passRe.exec(text);
-  if (!nameMatch || !passMatch) return null;
-  const name = stripPunct(nameMatch[1]);
-  const passcode = passMatch[1].trim();
-  if (!name || !passcode) return null;
-  return { name, passcode };
+// Argumentos de tool_calls: JSON estricto o reparado; si no, objeto vacío
+// (el schema de la tool rechazará el input y quedará registrado).
+function parseToolArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    try {
+      return JSON.parse(jsonrepair(raw));
+    } catch {
+      return {};
+    }
+  }
 }
 
-// ---------------------------- Intent: record_note --------------------------
-// Detecta órdenes de registrar/guardar/anotar una nota y extrae el texto.
-function extractRecordNote(msg: string) {
-  // “Registrá/Guardá/Anotá … nota … <texto>” o “nota: …”
-  const re1 =
-    /(?:registr(?:a|á|ar)|guard(?:a|á|ar)|anot(?:a|á|ar)).*?\bnota\b[:\s,.-]*([\s\S]+)$/i;
-  const re2 = /\bnota\b\s*[:\-]\s*([\s\S]+)$/i;
-  const m = re1.exec(msg) ?? re2.exec(msg);
-  const text = (m?.[1] ?? "").toString();
-  const cleaned = stripPunct(text);
-  return cleaned.length >= 3 ? { text: cleaned } : null;
+// Modo nativo: cada tool_call se traduce a un plan "tool"; sin tool_calls,
+// el contenido es la respuesta final. El texto se reenvía por `onToken`
+// mientras llega, sin esperar a la completion entera.
+async function planFromNativeTools(
+  contextual: string,
+  messages: ChatMessage[],
+  turn: number,
+  onToken: (value: string) => void
+): Promise<PlannerResult> {
+  let completion: ChatCompletion | null = null;
+  for await (const event of chatStream({
+    system: `${NATIVE_PROMPT}\n\n${contextual}`,
+    messages,
+    tools: CHAT_TOOLS,
+    temperature: 0,
+    maxTokens: 1024,
+    purpose: "planning",
+    turn,
+  })) {
+    if (event.type === "delta") onToken(event.value);
+    else completion = event.completion;
+  }
+  if (!completion) throw new Error("openrouter: stream sin cierre");
+  const { model } = completion;
+  if (completion.toolCalls.length === 0) {
+    return {
+      model,
+      plans: [
+        {
+          thought: "El modelo respondió sin invocar tools.",
+          action: "respond",
+          final_response: completion.content,
+          tool: null,
+        },
+      ],
+    };
+  }
+  return {
+    model,
+    plans: completion.toolCalls.map((call) => ({
+      thought: completion.content || `Invoco ${call.name} vía function calling.`,
+      action: "tool" as const,
+      tool: { name: call.name, input: parseToolArguments(call.arguments) },
+      final_response: null,
+    })),
+  };
 }
 
-// ---------------------------- Intent: create_lead --------------------------
-// Extrae nombre, email y fuente opcional de frases naturales.
-const emailRe = /<?([A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,})>?/i;
-function extractCreateLead(text: string) {
-  // “Creá un lead para Ana ... con email/correo/mail x@x.com desde <fuente>”
-  const m = text.match(
-    /lead\s+para\s+(.+?)\s+con\s+(?:correo|email|mail)\s+(.+?)(?:\s+(?:desde|de)\s+(.+?))?[.?!]*$/i
-  );
-  if (m) {
-    const name = stripPunct(m[1]);
-    const email = (m[2].match(emailRe)?.[1] ?? m[2]).trim();
-    const source = stripPunct(m[3] ?? "");
-    if (name && emailRe.test(email))
-      return { name, email, ...(source ? { source } : {}) };
-  }
-  // fallback: "<nombre> <email> [desde <source>]"
-  const e = text.match(emailRe)?.[1];
-  if (!e) return null;
-  const before = text
-    .slice(0, text.indexOf(e))
-    .replace(/.*para\s+/i, "")
-    .trim();
-  const src = text
-    .slice(text.indexOf(e) + e.length)
-    .match(/(?:desde|de)\s+(.+?)$/i)?.[1]
-    ?.trim();
-  const name = stripPunct(before);
-  return name && emailRe.test(e)
-    ? { name, email: e, ...(src ? { source: stripPunct(src) } : {}) }
-    : null;
+// Mensaje de asistente en streaming: se abre con el primer token recibido y
+// se cierra con assistant_done. Las citas (si las hay) viajan en el cierre
+// para que la UI las enlace.
+function createAssistantStream(emit: AgentEventEmitter) {
+  let id: string | null = null;
+  let text = "";
+  return {
+    push(value: string) {
+      if (!id) {
+        id = randomUUID();
+        emit({ event: "assistant_message", data: { id } });
+      }
+      text += value;
+      emit({ event: "token", data: { id, value } });
+    },
+    get started() {
+      return id !== null;
+    },
+    get text() {
+      return text;
+    },
+    done(citations?: DocCitation[]) {
+      if (!id) return;
+      emit({
+        event: "assistant_done",
+        data: citations?.length ? { id, citations } : { id },
+      });
+      id = null;
+    },
+  };
 }
 
-// ----------------------- Intent: complete_followup -------------------------
-// Ej.: “Completá el follow-up 3” o “Follow-up #5 completado”.
-function extractCompleteFollowUp(text: string) {
-  const m =
-    /(?:marc(a|á)|complet(a|á)|cerr(a|á)).*?follow[- ]?up\s*#?\s*(?<id>\d+)\b/i.exec(
-      text
-    ) ||
-    /follow[- ]?up\s*#?\s*(?<id>\d+)\b.*?(?:complet(a|á)|cerr(a|á))/i.exec(
-      text
-    );
-  const id = m?.groups?.id ? Number(m.groups.id) : NaN;
-  return Number.isFinite(id) ? { followUpId: id } : null;
+// Emite un texto ya resuelto (fast-paths, fallbacks) como un único token,
+// sin latencia artificial.
+async function emitStreamingText(
+  emit: AgentEventEmitter,
+  text: string,
+  citations?: DocCitation[]
+) {
+  const stream = createAssistantStream(emit);
+  stream.push(text);
+  stream.done(citations);
 }
 
-// -------------------------- Intent: search_docs ----------------------------
-// Detecta preguntas o búsquedas explícitas sobre documentación.
-function extractSearchDocs(text: string) {
-  const t = text.toLowerCase();
+// ------------------------------ Slot-filling -------------------------------
+// Interpreta la respuesta del usuario como valor del campo pedido, según el
+// tipo declarado en el schema (email, fecha, número o texto libre).
+function extractSlotValue(
+  schema: z.ZodTypeAny,
+  field: string,
+  text: string
+): unknown {
+  const fieldSchema = zodToJsonSchema(schema).properties?.[field] ?? {};
+  if (fieldSchema.format === "email") return text.match(emailRe)?.[1] ?? text.trim();
+  if (fieldSchema.format === "date-time")
+    return parseDueAtSpanish(text)?.when ?? text.trim();
+  if (fieldSchema.type === "number" || fieldSchema.type === "integer")
+    return text.match(/\d+/)?.[0] ?? text.trim();
+  return stripPunct(text);
+}
 
-  const hasQuestionPunct = /[¿?]/.test(t);
-  const hasInterrogatives = /\b(cómo|qué|dónde|cuándo|por qué|para qué)\b/.test(
-    t
+// Completa placeholders {campo} de una pregunta con el input ya recolectado.
+function fillSlotPrompt(template: string, input: Record<string, unknown>) {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) =>
+    input[key] != null ? String(input[key]) : ""
   );
-
-  const hasDocsWords =
-    /\b(documentación|documentos|manual|guía|onboarding|prácticas)\b/.test(t);
-  const explicitSearch = /^\s*busc(a|á|ar)\b/.test(t);
-  const hasKnowledgeKeywords =
-    /\b(embedding|embeddings|vector|rag|modelo|stack|arquitectura|pipeline|contexto)\b/.test(
-      t
-    );
-
-  if (
-    (hasQuestionPunct || hasInterrogatives) &&
-    (hasDocsWords || explicitSearch || hasKnowledgeKeywords)
-  ) {
-    return { question: stripPunct(text) };
-  }
-  if (explicitSearch && (hasDocsWords || hasKnowledgeKeywords))
-    return { question: stripPunct(text) };
-  return null;
 }
 
-// ---------------------- Intent: schedule_followup (ES) ---------------------
-// Parser mínimo para fechas relativas y absolutas en español.
-function parseDueAtSpanish(
-  msg: string
-): { when: Date; matched: string } | null {
-  const now = new Date();
-  const base = new Date(now);
-  base.setHours(0, 0, 0, 0);
-
-  // mañana / hoy / pasado mañana a las HH[:MM] [am|pm]
-  const rel =
-    /(pasado\s+ma[ñn]ana|ma[ñn]ana|hoy)\s*(?:a\s+las\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i.exec(
-      msg
-    );
-  if (rel) {
-    const word = rel[1].toLowerCase();
-    const hh = Number(rel[2]);
-    const mm = rel[3] ? Number(rel[3]) : 0;
-    const ap = rel[4]?.toLowerCase();
-    let d = new Date(base);
-    if (/pasado/.test(word)) d.setDate(d.getDate() + 2);
-    else if (/ma[ñn]ana/.test(word)) d.setDate(d.getDate() + 1);
-    let H = hh;
-    if (ap === "pm" && H < 12) H += 12;
-    if (ap === "am" && H === 12) H = 0;
-    d.setHours(H, mm, 0, 0);
-    return { when: d, matched: rel[0] };
-  }
-
-  // dd/mm a las HH[:MM]
-  const abs = /(\d{1,2})\/(\d{1,2}).*?a\s+las\s+(\d{1,2})(?::(\d{2}))?/i.exec(
-    msg
-  );
-  if (abs) {
-    const day = Number(abs[1]);
-    const mon = Number(abs[2]) - 1;
-    const hh = Number(abs[3]);
-    const mm = abs[4] ? Number(abs[4]) : 0;
-    const d = new Date(base);
-    d.setMonth(mon, day);
-    d.setHours(hh, mm, 0, 0);
-    return { when: d, matched: abs[0] };
-  }
+// Máximo de respuestas inválidas seguidas antes de abandonar el diálogo.
+const MAX_SLOT_ATTEMPTS = 3;
 
-  return null;
+// Un mensaje que pregunta algo o dispara el intent de otra tool no es el valor
+// del campo: el usuario cambió de tema. Los intents de la misma tool (p.ej.
+// "mi passcode es 123456" mientras se pide el passcode) siguen siendo respuesta.
+function isSlotEscape(tool: string, text: string, authenticated: boolean): boolean {
+  if (/[¿?]/.test(text)) return true;
+  const found = matchIntent(text, authenticated);
+  return found !== null && found.intent.tool !== tool;
 }
 
-// Extrae título y dueAt a partir de la frase natural.
-function extractScheduleFollowUp(text: string) {
-  const r = parseDueAtSpanish(text);
-  if (!r) return null;
-  const raw = stripPunct(text);
-  // Quita “agendá/programá … follow-up”, conectores y la parte temporal.
-  let title = raw
-    .replace(/agend(a|á|ar)\s+un?\s+follow[- ]?up/gi, "")
-    .replace(/program(a|á|ar)\s+un?\s+follow[- ]?up/gi, "")
-    .replace(
-      new RegExp(r.matched.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i"),
-      ""
-    )
-    .replace(/\b(para|con|sobre)\b/gi, "")
-    .trim();
-  if (!title || title.length < 3) title = "Follow-up";
-  return { title, dueAt: r.when };
-}
+// ------------------------ Confirmación de acciones -------------------------
+// Respuestas cortas a "¿Confirmás?". El mensaje entero tiene que ser la
+// afirmación ("sí", "dale", "Sí, confirmo." del botón de la UI): un "si" suelto
+// al inicio también es condicional ("si mañana…") y no debe ejecutar nada.
+// Cualquier otro mensaje descarta la acción (avisando al usuario).
+const affirmative = "s[ií]|dale|ok(?:ey)?|confirm(?:o|á|a|ar|ado)|adelante|hacelo|de acuerdo";
+export const confirmRe = new RegExp(
+  `^\\s*(?:${affirmative})(?:[\\s,.!¡]+(?:${affirmative}))*[\\s.!]*$`,
+  "i"
+);
+const cancelRe =
+  /^\s*(?:no|cancel(?:o|á|a|ar|ado)|mejor no|olvidalo|dejalo)\b/i;
 
 // ------------------------------ Núcleo del agente --------------------------
 // Orquesta fast-paths, herramientas y loop del LLM con fallback a prueba de fallos.
@@ -383,20 +483,36 @@ export async function runAgent(
   // 0) Carga y persistencia inmediata del mensaje del usuario.
   const session = await getSession(conversationId);
   session.history.push({ role: "user", content: userMessage });
+  // Memoria: se compacta antes de cualquier rama (fast-paths incluidos). Si no,
+  // clampHistory(120) descartaría mensajes sin resumir y conversationTurn()
+  // dejaría de contar los turnos perdidos.
+  const compacted = await compactHistory(session);
   await saveSession(session);
+  if (compacted > 0) {
+    emit({
+      event: "thought",
+      data: {
+        id: randomUUID(),
+        text: `Resumí ${compacted} mensajes anteriores en la memoria de la conversación.`,
+      },
+    });
+  }
 
   // ---- Helper local para invocar tools con validación y telemetría UI.
   type ToolCallOutcome = {
     name: ToolName;
-    status: "success" | "error";
+    status: "success" | "error" | "confirmation_required" | "needs_input";
     parsedInput: unknown;
     result: unknown;
   };
 
   const invokeTool = async (
     toolName: string | undefined,
-    rawInput: unknown
+    rawInput: unknown,
+    options: { confirmed?: boolean } = {}
   ): Promise<ToolCallOutcome | null> => {
+    const callId = randomUUID();
+
     // 1) Verificación de existencia de la tool
     if (!toolName || !(toolName in tools)) {
       emit({
@@ -404,8 +520,13 @@ export async function runAgent(
         data: { message: `Tool desconocida: ${String(toolName)}` },
       });
       session.history.push({
-        role: "assistant",
-        content: `TOOL_ERROR ${String(toolName)}`,
+        role: "tool",
+        callId,
+        name: String(toolName),
+        input: rawInput ?? {},
+        result: null,
+        status: "error",
+        error: "Tool desconocida",
       });
       await saveSession(session);
       return null;
@@ -419,32 +540,110 @@ export async function runAgent(
     try {
       parsedInput = def.schema.parse(rawInput ?? {});
     } catch (err) {
+      // 2b) Campos faltantes en tools con slotPrompts: se conservan los campos
+      //     válidos y se inicia un diálogo para pedir el resto.
+      const prompts = def.slotPrompts;
+      const missing = invalidFields(def.schema, rawInput ?? {});
+      if (prompts && missing.length && missing.every((f) => f in prompts)) {
+        const partial: Record<string, unknown> = {};
+        if (rawInput && typeof rawInput === "object") {
+          for (const [key, value] of Object.entries(rawInput)) {
+            if (!missing.includes(key)) partial[key] = value;
+          }
+        }
+        session.slotFilling = {
+          tool: typedName,
+          input: partial,
+          field: missing[0],
+          attempts: 0,
+        };
+        await saveSession(session);
+        emit({
+          event: "thought",
+          data: {
+            id: randomUUID(),
+            text: `Faltan datos para ${typedName}: ${missing.join(", ")}.`,
+          },
+        });
+        return {
+          name: typedName,
+          status: "needs_input",
+          parsedInput: partial,
+          result: null,
+        };
+      }
+
       const msg = err instanceof Error ? err.message : "input inválido";
       emit({
         event: "error",
         data: { message: `Input inválido para ${typedName}: ${msg}` },
       });
       session.history.push({
-        role: "assistant",
-        content: `TOOL_INPUT_ERROR ${typedName}: ${msg}`,
+        role: "tool",
+        callId,
+        name: typedName,
+        input: rawInput ?? {},
+        result: null,
+        status: "error",
+        error: `Input inválido: ${msg}`,
       });
       await saveSession(session);
       return null;
     }
 
-    // 3) Señaliza a la UI la invocación de la tool
-    const callId = randomUUID();
+    // 3) Tools de escritura/borrado: se guarda la acción y se pide confirmación
+    if (def.requiresConfirmation && !options.confirmed) {
+      const pending: PendingAction = {
+        id: randomUUID(),
+        name: typedName,
+        input: parsedInput,
+        summary:
+          def.describeAction?.(parsedInput) ?? `Voy a ejecutar ${typedName}.`,
+        createdAt: new Date().toISOString(),
+      };
+      session.pendingAction = pending;
+      await saveSession(session);
+      emit({ event: "confirmation_required", data: pending });
+      emit({ event: "state", data: { pendingAction: pending } });
+      return {
+        name: typedName,
+        status: "confirmation_required",
+        parsedInput,
+        result: null,
+      };
+    }
+
+    // 4) Señaliza a la UI la invocación de la tool
     emit({
       event: "tool",
       data: { id: callId, name: typedName, input: parsedInput },
     });
 
     try {
-      // 4) Ejecuta la tool y determina status semántico
+      // 5) Ejecuta la tool y determina status semántico
       const result = await def.execute(parsedInput, { session });
-      const status = (result as any)?.success === false ? "error" : "success";
+      const { success, message: resultMessage } = toolStatus(result);
+      const status = success === false ? "error" : "success";
+
+      // 5b) search_docs: consulta original y reescrita (más paráfrasis) al trace
+      if (typedName === "search_docs") {
+        const { question, rewrittenQuestion, paraphrases = [] } = toolResult(
+          "search_docs",
+          result
+        );
+        const parts: string[] = [];
+        if (rewrittenQuestion)
+          parts.push(`Consulta reescrita: "${question}" → "${rewrittenQuestion}"`);
+        if (paraphrases.length)
+          parts.push(`paráfrasis: ${paraphrases.map((p) => `"${p}"`).join(", ")}`);
+        if (parts.length)
+          emit({
+            event: "thought",
+            data: { id: randomUUID(), text: `${parts.join("; ")}.` },
+          });
+      }
 
-      // 5) Notifica resultado a la UI
+      // 6) Notifica resultado a la UI
       emit({
         event: "tool_result",
         data: {
@@ -454,25 +653,26 @@ export async function runAgent(
           result,
           status,
           error:
-            status === "error"
-              ? (result as any)?.message ?? "Error desconocido"
-              : undefined,
+            status === "error" ? resultMessage ?? "Error desconocido" : undefined,
         },
       });
 
-      // 6) Persistencia mínima en historial para auditar flujos
+      // 7) Persistencia en historial: llamada + resultado en un mensaje tool
       session.history.push({
-        role: "assistant",
-        content: `TOOL_CALL ${typedName}: ${JSON.stringify(parsedInput)}`,
-      });
-      session.history.push({
-        role: "assistant",
-        content: `TOOL_RESULT ${typedName}: ${JSON.stringify(result)}`,
+        role: "tool",
+        callId,
+        name: typedName,
+        input: parsedInput,
+        result,
+        status,
+        ...(status === "error"
+          ? { error: resultMessage ?? "Error desconocido" }
+          : {}),
       });
 
-      // 7) Side-effect: si fue verify_passcode exitoso, fijar usuario autenticado
+      // 8) Side-effect: si fue verify_passcode exitoso, fijar usuario autenticado
       if (typedName === "verify_passcode" && status === "success") {
-        session.authenticatedUser = (result as any)?.user;
+        session.authenticatedUser = toolResult("verify_passcode", result).user;
         emit({
           event: "state",
           data: { authenticatedUser: session.authenticatedUser ?? null },
@@ -482,7 +682,7 @@ export async function runAgent(
       await saveSession(session);
       return { name: typedName, status, parsedInput, result };
     } catch (err) {
-      // 8) Manejo de excepciones en la ejecución de la tool
+      // 9) Manejo de excepciones en la ejecución de la tool
       const msg = err instanceof Error ? err.message : "Error ejecutando tool";
       emit({
         event: "tool_result",
@@ -496,8 +696,13 @@ export async function runAgent(
         },
       });
       session.history.push({
-        role: "assistant",
-        content: `TOOL_EXEC_ERROR ${typedName}: ${msg}`,
+        role: "tool",
+        callId,
+        name: typedName,
+        input: parsedInput,
+        result: null,
+        status: "error",
+        error: msg,
       });
       await saveSession(session);
       return null;
@@ -517,19 +722,13 @@ export async function runAgent(
   };
 
   const buildToolSuccessMessage = (outcome: ToolCallOutcome): string => {
-    const { name, parsedInput, result } = outcome;
+    const { name, result } = outcome;
     switch (name) {
       case "record_note": {
-        const ts =
-          (result as any)?.createdAt ??
-          (result as any)?.created_at ??
-          new Date().toISOString();
-        const noteId =
-          (result as any)?.noteId ??
-          (result as any)?.id ??
-          (result as any)?.note?.id ??
-          (parsedInput as any)?.noteId;
-        const noteText = (result as any)?.text ?? (parsedInput as any)?.text;
+        const note = toolResult(name, result);
+        const ts = note.createdAt ?? new Date().toISOString();
+        const noteId = note.noteId;
+        const noteText = note.text;
         const snippet =
           typeof noteText === "string" && noteText.trim().length
             ? ` Detalle: "${
@@ -544,12 +743,11 @@ export async function runAgent(
         return `Nota guardada${idText}${timeText}.${snippet} ¿Algo más?`;
       }
       case "create_lead": {
-        const leadResult = (result as any)?.lead ?? result;
-        const leadInput = parsedInput as any;
-        const nameValue = leadResult?.name ?? leadInput?.name;
-        const email = leadResult?.email ?? leadInput?.email;
-        const source = leadResult?.source ?? leadInput?.source;
-        const leadId = leadResult?.id ?? (result as any)?.leadId;
+        const { lead } = toolResult(name, result);
+        const nameValue = lead?.name;
+        const email = lead?.email;
+        const source = lead?.source;
+        const leadId = lead?.id;
         const headline = [
           nameValue ? String(nameValue) : null,
           email ? `<${String(email)}>` : null,
@@ -563,24 +761,19 @@ export async function runAgent(
         return `Lead creado: ${headline || "sin datos"}${suffix}.`;
       }
       case "verify_passcode": {
-        const user = (result as any)?.user;
-        const nameValue = user?.name ?? (parsedInput as any)?.name;
+        const nameValue = toolResult(name, result).user?.name;
         return `Usuario verificado: ${nameValue}. ¿Querés registrar un lead, una nota, un follow-up o buscar en la documentación?`;
       }
       case "search_docs": {
-        const payload = (result as any) ?? {};
-        const matches = Array.isArray(payload.results)
-          ? payload.results
-          : Array.isArray(result)
-          ? (result as any)
-          : [];
+        const payload = toolResult(name, result);
+        const matches = payload.results ?? [];
         const count = matches.length;
         const extras: string[] = [];
         if (payload.question)
           extras.push(`Consulta: "${String(payload.question)}"`);
         if (matches[0]?.path) extras.push(`Ejemplo: ${matches[0].path}`);
         if (payload.source === "static")
-          extras.push("Fuente: compendio interno");
+          extras.push("Fuente: corpus local (modo degradado)");
         if (count === 0) {
           const baseMessage =
             payload.message ??
@@ -594,18 +787,16 @@ export async function runAgent(
         const extraText = extras.length ? ` ${extras.join(" • ")}` : "";
         return `Encontré ${count} fragmento${
           count === 1 ? "" : "s"
-        } relevantes.${extraText} ¿Querés que elabore una respuesta con ellos?`;
+        } relevantes.${extraText}`;
       }
       case "list_notes": {
-        const notes = Array.isArray((result as any)?.notes)
-          ? (result as any).notes
-          : [];
+        const notes = toolResult(name, result).notes ?? [];
         if (notes.length === 0)
           return "No encontré notas registradas todavía. ¿Agendamos una nueva?";
-        const lines = notes.slice(0, 10).map((note: any) => {
+        const lines = notes.slice(0, 10).map((note) => {
           const when = formatDateTime(note.createdAt);
           const snippet =
-            typeof note.text === "string" && note.text.trim().length
+            note.text.trim().length
               ? note.text.trim().length > 120
                 ? `${note.text.trim().slice(0, 117)}…`
                 : note.text.trim()
@@ -620,27 +811,21 @@ export async function runAgent(
         )}`;
       }
       case "delete_note": {
-        const deleted = (result as any)?.deleted ?? {};
-        const when = formatDateTime(deleted.createdAt);
-        const snippet =
-          typeof deleted.text === "string" && deleted.text.trim().length
-            ? deleted.text.trim().length > 120
-              ? `${deleted.text.trim().slice(0, 117)}…`
-              : deleted.text.trim()
-            : "";
-        const pieces = [`Nota ${deleted.id} eliminada.`];
+        const { deleted } = toolResult(name, result);
+        const when = formatDateTime(deleted?.createdAt);
+        const text = deleted?.text.trim() ?? "";
+        const snippet = text.length > 120 ? `${text.slice(0, 117)}…` : text;
+        const pieces = [`Nota ${deleted?.id} eliminada.`];
         if (snippet) pieces.push(`Contenido: "${snippet}".`);
         if (when) pieces.push(`Creada el ${when}.`);
         pieces.push("¿Te ayudo con algo más?");
         return pieces.join(" ");
       }
       case "list_leads": {
-        const leads = Array.isArray((result as any)?.leads)
-          ? (result as any).leads
-          : [];
+        const leads = toolResult(name, result).leads ?? [];
         if (leads.length === 0)
           return "No hay leads registrados todavía. ¿Querés crear uno nuevo?";
-        const lines = leads.slice(0, 10).map((lead: any) => {
+        const lines = leads.slice(0, 10).map((lead) => {
           const created = formatDateTime(lead.createdAt);
           const meta = [
             lead.email ? `<${lead.email}>` : null,
@@ -656,7 +841,7 @@ export async function runAgent(
         return `Últimos leads (${leads.length}):\n${lines.join("\n")}`;
       }
       case "schedule_followup": {
-        const followUp = (result as any)?.followUp ?? result;
+        const { followUp } = toolResult(name, result);
         const dueText = formatDateTime(followUp?.dueAt) ?? "sin fecha definida";
         const notes =
           typeof followUp?.notes === "string" && followUp.notes.trim().length
@@ -669,12 +854,10 @@ export async function runAgent(
         return `Follow-up agendado (ID ${followUp?.id}): "${followUp?.title}" con vencimiento ${dueText}.${notes}`;
       }
       case "list_followups": {
-        const followUps = Array.isArray((result as any)?.followUps)
-          ? (result as any).followUps
-          : [];
+        const followUps = toolResult(name, result).followUps ?? [];
         if (followUps.length === 0)
           return "No hay follow-ups en ese estado por ahora. Podemos agendar uno nuevo si querés.";
-        const lines = followUps.slice(0, 10).map((item: any) => {
+        const lines = followUps.slice(0, 10).map((item) => {
           const due = formatDateTime(item.dueAt) ?? "sin fecha";
           const status =
             item.status === "completed" ? "completado" : "pendiente";
@@ -693,7 +876,7 @@ export async function runAgent(
         )}`;
       }
       case "complete_followup": {
-        const followUp = (result as any)?.followUp ?? result;
+        const { followUp } = toolResult(name, result);
         const completed = formatDateTime(followUp?.completedAt);
         const due = formatDateTime(followUp?.dueAt);
         const pieces = [`Follow-up ${followUp?.id} marcado como completado.`];
@@ -702,202 +885,423 @@ export async function runAgent(
         return pieces.join(" ");
       }
       default:
-        return (result as any)?.message ?? "Acción completada correctamente.";
+        return toolStatus(result).message ?? "Acción completada correctamente.";
     }
   };
 
+  // Extrae los chunks devueltos por search_docs (vacío para otras tools).
+  const docResultsOf = (outcome: ToolCallOutcome): DocSearchResult[] =>
+    outcome.name === "search_docs"
+      ? toolResult("search_docs", outcome.result).results ?? []
+      : [];
+
   // Responder flujo feliz/errores y persistir en historial.
+  // search_docs con resultados se sintetiza en una respuesta con citas.
   const respondWithToolSuccess = async (outcome: ToolCallOutcome) => {
+    const docs = docResultsOf(outcome);
+    if (docs.length > 0) {
+      // La síntesis no ve el historial: usa la pregunta autónoma si la hubo.
+      const { question, rewrittenQuestion } = toolResult(
+        "search_docs",
+        outcome.result
+      );
+      emit({
+        event: "thought",
+        data: {
+          id: randomUUID(),
+          text: `Sintetizando respuesta con ${docs.length} fragmento${
+            docs.length === 1 ? "" : "s"
+          } de la documentación.`,
+        },
+      });
+      const stream = createAssistantStream(emit);
+      const grounded = await synthesizeAnswer(
+        rewrittenQuestion ?? question ?? "",
+        docs,
+        stream.push
+      );
+      stream.done(grounded.citations);
+      emit({
+        event: "thought",
+        data: {
+          id: randomUUID(),
+          text: !grounded.error
+            ? `Respuesta redactada por ${grounded.model ?? "el LLM"}.`
+            : grounded.extractive
+              ? `La síntesis falló (${grounded.error}); respondí con un resumen extractivo.`
+              : `La síntesis se cortó a mitad de la respuesta (${grounded.error}); quedó el texto parcial.`,
+        },
+      });
+      session.history.push({ role: "assistant", content: grounded.answer });
+      await saveSession(session);
+      return;
+    }
+
     const message = buildToolSuccessMessage(outcome);
     await emitStreamingText(emit, message);
     session.history.push({ role: "assistant", content: message });
     await saveSession(session);
   };
 
+  const toolErrorText = (outcome: ToolCallOutcome): string =>
+    toolStatus(outcome.result).message ?? `No se pudo ejecutar ${outcome.name}.`;
+
+  const confirmationText = () =>
+    `${
+      session.pendingAction?.summary ?? "Tengo una acción pendiente."
+    } ¿Confirmás? Respondé "sí" para continuar o "no" para cancelar.`;
+
+  const slotQuestionText = (notice = "") => {
+    const slots = session.slotFilling;
+    const template = slots
+      ? tools[slots.tool as ToolName]?.slotPrompts?.[slots.field]
+      : undefined;
+    const question = slots
+      ? fillSlotPrompt(template ?? `¿Cuál es el valor de ${slots.field}?`, slots.input)
+      : "¿Me pasás el dato que falta?";
+    return `${notice}${question} (Podés decir "cancelar" para dejarlo.)`;
+  };
+
   const respondWithToolError = async (outcome: ToolCallOutcome) => {
-    const msg =
-      (outcome.result as any)?.message ??
-      `No se pudo ejecutar ${outcome.name}.`;
+    const msg = toolErrorText(outcome);
     await emitStreamingText(emit, msg);
     session.history.push({ role: "assistant", content: msg });
     await saveSession(session);
   };
 
+  // Acción pendiente: describe lo que se hará y espera el "sí" del usuario.
+  const respondWithConfirmationRequest = async () => {
+    const msg = confirmationText();
+    await emitStreamingText(emit, msg);
+    session.history.push({ role: "assistant", content: msg });
+    await saveSession(session);
+  };
+
+  // Slot-filling: pregunta por el campo pendiente (con aviso opcional previo).
+  const respondWithSlotQuestion = async (notice = "") => {
+    const msg = slotQuestionText(notice);
+    await emitStreamingText(emit, msg);
+    session.history.push({ role: "assistant", content: msg });
+    await saveSession(session);
+  };
+
+  const respondWithOutcome = (outcome: ToolCallOutcome) =>
+    outcome.status === "success"
+      ? respondWithToolSuccess(outcome)
+      : outcome.status === "confirmation_required"
+      ? respondWithConfirmationRequest()
+      : outcome.status === "needs_input"
+      ? respondWithSlotQuestion()
+      : respondWithToolError(outcome);
+
+  // Limpia la acción pendiente y sincroniza la UI.
+  const clearPendingAction = async () => {
+    session.pendingAction = null;
+    await saveSession(session);
+    emit({ event: "state", data: { pendingAction: null } });
+  };
+
   // ----------------------------- Estrategia de flujo -----------------------
-  // 1) Auth fast-path: si no hay usuario autenticado, intenta extraer passcode.
-  if (!session.authenticatedUser) {
-    const creds = extractPasscodeIntent(userMessage);
-    if (creds) {
-      const outcome = await invokeTool("verify_passcode", creds);
+  // 0) Acción pendiente de confirmación: "sí" la ejecuta, "no" la cancela y
+  //    cualquier otro mensaje la descarta (con aviso) y sigue el flujo normal.
+  const pending = session.pendingAction;
+  if (pending) {
+    if (confirmRe.test(userMessage)) {
+      await clearPendingAction();
+      emit({
+        event: "thought",
+        data: { id: randomUUID(), text: `Confirmado: ejecuto ${pending.name}.` },
+      });
+      const outcome = await invokeTool(pending.name, pending.input, {
+        confirmed: true,
+      });
       if (outcome) {
-        if (outcome.status === "success") {
-          await respondWithToolSuccess(outcome);
-          return; // auth resuelta
-        }
-        await respondWithToolError(outcome);
-        return; // informar error de auth
+        await respondWithOutcome(outcome);
+        return;
       }
+      const msg = `No se pudo ejecutar ${pending.name}.`;
+      await emitStreamingText(emit, msg);
+      session.history.push({ role: "assistant", content: msg });
+      await saveSession(session);
+      return;
+    }
+    await clearPendingAction();
+    if (cancelRe.test(userMessage)) {
+      const msg = `Listo, cancelé la acción: ${pending.summary}`;
+      await emitStreamingText(emit, msg);
+      session.history.push({ role: "assistant", content: msg });
+      await saveSession(session);
+      return;
     }
+    // Mensaje nuevo: se avisa que la acción no se ejecutó y sigue el flujo.
+    const dropped = `Descarté la acción pendiente por tu nuevo mensaje: ${pending.summary}`;
+    await emitStreamingText(emit, dropped);
+    session.history.push({ role: "assistant", content: dropped });
+    await saveSession(session);
   }
 
-  // 2) Acciones y listados si ya está autenticado
-  if (session.authenticatedUser) {
-    // Completar follow-up
-    const done = extractCompleteFollowUp(userMessage);
-    if (done) {
-      const outcome = await invokeTool("complete_followup", done);
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
-      }
-    }
+  // 0b) Slot-filling en curso: el mensaje es el valor del campo pedido, salvo
+  //     que sea un pedido nuevo (pregunta u otro intent): ahí se abandona el
+  //     diálogo avisando y el mensaje sigue el flujo normal.
+  const slots = session.slotFilling;
+  if (slots && isSlotEscape(slots.tool, userMessage, Boolean(session.authenticatedUser))) {
+    session.slotFilling = null;
+    const dropped = `Dejé sin completar ${slots.tool} para atender tu nuevo mensaje.`;
+    await emitStreamingText(emit, dropped);
+    session.history.push({ role: "assistant", content: dropped });
+    await saveSession(session);
+  } else if (slots) {
+    const def = tools[slots.tool as ToolName];
+    const cancel = (msg: string) => {
+      session.slotFilling = null;
+      return emitStreamingText(emit, msg).then(async () => {
+        session.history.push({ role: "assistant", content: msg });
+        await saveSession(session);
+      });
+    };
 
-    // Agendar follow-up con fecha
-    const sched = extractScheduleFollowUp(userMessage);
-    if (sched) {
-      const outcome = await invokeTool("schedule_followup", sched);
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
-      }
+    if (!def || cancelRe.test(userMessage)) {
+      await cancel(`Listo, dejé sin completar ${slots.tool}.`);
+      return;
     }
 
-    // Crear lead rápido
-    const lead = extractCreateLead(userMessage);
-    if (lead) {
-      const outcome = await invokeTool("create_lead", lead);
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
+    const value = extractSlotValue(def.schema, slots.field, userMessage);
+    if (!isValidField(def.schema, slots.field, value)) {
+      if (slots.attempts + 1 >= MAX_SLOT_ATTEMPTS) {
+        await cancel(
+          `No pude validar ${slots.field} después de ${MAX_SLOT_ATTEMPTS} intentos, así que dejé ${slots.tool} sin completar.`
+        );
         return;
       }
+      session.slotFilling = { ...slots, attempts: slots.attempts + 1 };
+      await respondWithSlotQuestion(
+        `Ese valor no es válido para ${slots.field}. `
+      );
+      return;
     }
 
-    // Registrar nota
-    const note = extractRecordNote(userMessage);
-    if (note) {
-      const outcome = await invokeTool("record_note", note);
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
-      }
+    const input = { ...slots.input, [slots.field]: value };
+    const remaining = invalidFields(def.schema, input);
+    if (remaining.length) {
+      session.slotFilling = {
+        tool: slots.tool,
+        input,
+        field: remaining[0],
+        attempts: 0,
+      };
+      await respondWithSlotQuestion();
+      return;
     }
 
-    // Listados con extracción de límite numérico simple (1–12)
-    const normalized = userMessage.toLowerCase();
-    const numberMatch = userMessage.match(/\b(\d{1,2})\b/);
-    const limit = numberMatch ? Number(numberMatch[1]) : undefined;
-
-    if (
-      /nota/.test(normalized) &&
-      /(mostr|lista|listá|ver|consult)/.test(normalized)
-    ) {
-      const outcome = await invokeTool("list_notes", limit ? { limit } : {});
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
-      }
+    // Input completo: se cierra el diálogo y se ejecuta (puede pedir confirmación).
+    session.slotFilling = null;
+    await saveSession(session);
+    const outcome = await invokeTool(slots.tool, input);
+    if (outcome) {
+      await respondWithOutcome(outcome);
+      return;
     }
+    const failed = `No se pudo ejecutar ${slots.tool}.`;
+    await emitStreamingText(emit, failed);
+    session.history.push({ role: "assistant", content: failed });
+    await saveSession(session);
+    return;
+  }
 
-    if (
-      /lead/.test(normalized) &&
-      /(mostr|lista|listá|ver|consult)/.test(normalized)
-    ) {
-      const outcome = await invokeTool("list_leads", limit ? { limit } : {});
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
+  // 1) Varios pedidos en un mensaje: si cada cláusula matchea un intent, se
+  //    ejecutan en orden y se responde con un único resumen. Una acción que
+  //    pide confirmación o datos faltantes corta la secuencia.
+  const clauses = splitCommands(userMessage);
+  if (
+    clauses.length > 1 &&
+    clauses.every((c) => matchIntent(c, true) ?? matchIntent(c, false))
+  ) {
+    const lines: string[] = [];
+    for (const [index, clause] of clauses.entries()) {
+      const step = `${index + 1}.`;
+      const found = matchIntent(clause, Boolean(session.authenticatedUser));
+      if (!found) {
+        lines.push(`${step} "${clause}": necesito que te autentiques primero.`);
+        continue;
       }
-    }
-
-    if (
-      /(follow[- ]?up|seguimiento)/.test(normalized) &&
-      /(mostr|lista|listá|ver|consult)/.test(normalized)
-    ) {
-      const status = /\bpendient/.test(normalized)
-        ? "pending"
-        : /\bcompletad|completos?\b/.test(normalized)
-        ? "completed"
-        : undefined;
-      const outcome = await invokeTool("list_followups", {
-        ...(status ? { status } : {}),
-        ...(limit ? { limit } : {}),
+      const { intent, match } = found;
+      emit({
+        event: "thought",
+        data: {
+          id: randomUUID(),
+          text: `Pedido ${index + 1}/${clauses.length}: intent ${intent.name} (confianza ${match.confidence.toFixed(2)}) → ${intent.tool}.`,
+        },
       });
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
+      const outcome = await invokeTool(intent.tool, match.input);
+      if (!outcome) {
+        lines.push(`${step} No pude interpretar "${clause}".`);
+        continue;
       }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
+      if (outcome.status === "success") {
+        lines.push(`${step} ${buildToolSuccessMessage(outcome)}`);
+        continue;
       }
+      if (outcome.status === "error") {
+        lines.push(`${step} ${toolErrorText(outcome)}`);
+        continue;
+      }
+      lines.push(
+        `${step} ${
+          outcome.status === "confirmation_required"
+            ? confirmationText()
+            : slotQuestionText()
+        }`
+      );
+      const skipped = clauses.slice(index + 1);
+      if (skipped.length)
+        lines.push(
+          `Quedó sin ejecutar: ${skipped
+            .map((c) => `"${c}"`)
+            .join(", ")}. Pedímelo de nuevo cuando terminemos con esto.`
+        );
+      break;
     }
+    const summary = lines.join("\n");
+    await emitStreamingText(emit, summary);
+    session.history.push({ role: "assistant", content: summary });
+    await saveSession(session);
+    return;
   }
 
-  // 3) Búsqueda en docs como último fast-path
-  const q = extractSearchDocs(userMessage);
-  if (q) {
-    const outcome = await invokeTool("search_docs", q);
-    if (outcome?.status === "success") {
-      await respondWithToolSuccess(outcome);
-      return;
-    }
+  // 2) Fast-paths: intents del registro por prioridad (ver intents.ts). Si la
+  //    tool rechaza el input se sigue con el próximo intent.
+  for (const intent of activeIntents(Boolean(session.authenticatedUser))) {
+    const match = intent.extract(userMessage);
+    if (!match) continue;
+    emit({
+      event: "thought",
+      data: {
+        id: randomUUID(),
+        text: `Intent ${intent.name} (confianza ${match.confidence.toFixed(2)}) → ${intent.tool}.`,
+      },
+    });
+    const outcome = await invokeTool(intent.tool, match.input);
     if (outcome) {
-      await respondWithToolError(outcome);
+      await respondWithOutcome(outcome);
       return;
     }
   }
 
-  // 4) LLM loop con límite y reintentos de JSON
+  // 3) LLM loop con límite y reintentos de JSON
   // Define un máximo acotado de iteraciones y hace un retry si el primer
-  // contenido no parsea contra PlanSchema.
-  const maxIters = Math.min(
-    10,
-    Math.max(1, Number(process.env.MAX_TOOL_ITERATIONS ?? "4"))
-  );
+  // contenido no parsea contra PlanSchema. Cada tool ejecutada deja su
+  // mensaje tool en el historial y se vuelve a planificar, de modo que el LLM
+  // puede encadenar pasos (p.ej. listar follow-ups y luego completar uno).
+  const maxIters = Math.min(10, getEnv().MAX_TOOL_ITERATIONS);
+
+  // Número de turno (estable aunque la memoria haya compactado el historial).
+  const turn = conversationTurn(session);
+  // Modo de planificación del turno (puede degradarse de native a json).
+  let mode = resolveToolMode();
+  // Último resultado de tool del turno: respaldo si el loop no llega a responder.
+  let lastOutcome: ToolCallOutcome | null = null;
+  // Chunks consultados en el turno: se adjuntan como citas a la respuesta final.
+  const turnDocs: DocSearchResult[] = [];
+  // Colecciones disponibles: se consultan una vez por turno (con caché en rag.ts).
+  const collections = session.authenticatedUser ? await collectionsContext() : "";
 
   for (let i = 0; i < maxIters; i++) {
-    const contextual = session.authenticatedUser
-      ? `Usuario autenticado: ${session.authenticatedUser.id} - ${session.authenticatedUser.name}.`
-      : "El usuario no está autenticado. Pedí nombre y passcode y validá con verify_passcode.";
+    const contextual = [
+      session.authenticatedUser
+        ? `Usuario autenticado: ${session.authenticatedUser.id} - ${session.authenticatedUser.name}.`
+        : "El usuario no está autenticado. Pedí nombre y passcode y validá con verify_passcode.",
+      memoryContext(session),
+      collections,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
 
-    let content = "";
+    // Tras ejecutar tools, el historial termina en un resultado de tool.
+    // Se agrega un recordatorio efímero para que el modelo continúe el plan.
+    const messagesFor = (target: ToolMode): ChatMessage[] => {
+      const messages = buildMessages(session.history, target);
+      if (i > 0) {
+        messages.push({
+          role: "user",
+          content:
+            target === "json"
+              ? `Paso ${i + 1} de ${maxIters}. Revisá los TOOL_RESULT anteriores y devolvé el siguiente plan en JSON: otra tool o action "respond".`
+              : `Paso ${i + 1} de ${maxIters}. Revisá los resultados de las tools anteriores: invocá otra tool o respondé al usuario.`,
+        });
+      }
+      return messages;
+    };
+
+    // Modo JSON: si el parseo sigue fallando, construir fallback determinista
+    const planJson = async (): Promise<PlannerResult> => {
+      const { plan, model } = await planFromJson(
+        contextual,
+        messagesFor("json"),
+        turn
+      );
+      return {
+        model,
+        plans: [
+          plan ??
+            fallbackPlan(
+              "Modelo devolvió JSON inválido",
+              Boolean(session.authenticatedUser)
+            ),
+        ],
+      };
+    };
+
+    // En modo nativo el texto del modelo se transmite en vivo a la UI.
+    const stream = createAssistantStream(emit);
+
+    let planned: PlannerResult;
     try {
-      content = await openrouterChat({
-        system: `${BASE_PROMPT}\n\n${contextual}`,
-        messages: buildMessages(session.history),
-        temperature: 0,
-        maxTokens: 1024,
-      });
+      if (mode === "native") {
+        try {
+          planned = await planFromNativeTools(
+            contextual,
+            messagesFor("native"),
+            turn,
+            stream.push
+          );
+        } catch (e) {
+          // Modelos sin soporte de tools: la cadena entera rechazó el request
+          // (4xx, ver ChatChainError) y se degrada a JSON en texto.
+          const rejected = e instanceof ChatChainError && e.requestRejected;
+          if (stream.started || !rejected) throw e;
+          const reason = e.message;
+          mode = "json";
+          emit({
+            event: "thought",
+            data: {
+              id: randomUUID(),
+              text: `El modelo no soporta function calling; uso planes JSON. (${reason})`,
+            },
+          });
+          planned = await planJson();
+        }
+      } else {
+        planned = await planJson();
+      }
     } catch (e) {
-      // Error de transporte o proveedor. Se devuelve fallback legible.
-      const plan = fallbackPlan(
-        e instanceof Error ? e.message : "LLM error",
-        Boolean(session.authenticatedUser)
-      );
+      // Error de transporte o proveedor. Si ya corrió alguna tool, se informa
+      // su resultado; si no, se devuelve fallback legible. Un stream cortado
+      // a mitad se cierra y se conserva lo recibido.
+      const reason = e instanceof Error ? e.message : "LLM error";
+      if (stream.started) {
+        stream.done();
+        session.history.push({ role: "assistant", content: stream.text });
+        await saveSession(session);
+      }
+      if (lastOutcome) {
+        emit({
+          event: "thought",
+          data: { id: randomUUID(), text: `Fallback: ${reason}` },
+        });
+        await respondWithOutcome(lastOutcome);
+        return;
+      }
+      const plan = fallbackPlan(reason, Boolean(session.authenticatedUser));
       emit({
         event: "thought",
         data: { id: randomUUID(), text: plan.thought },
@@ -908,52 +1312,69 @@ export async function runAgent(
       return;
     }
 
-    // Intento de parseo principal + retry con prompt más estricto
-    let plan: Plan | null = parsePlan(content);
-    if (!plan) {
-      const retry = await openrouterChat({
-        system: `${BASE_PROMPT}\n\nRESPONDE SOLO JSON plano (sin \`\`\`)`,
-        messages: buildMessages(session.history),
-        temperature: 0,
-        maxTokens: 512,
-      });
-      plan = parsePlan(retry);
-    }
+    const { plans, model } = planned;
+    emit({
+      event: "thought",
+      data: { id: randomUUID(), text: `Plan generado por ${model}.` },
+    });
 
-    // Si sigue fallando, construir fallback determinista
-    plan =
-      plan ??
-      fallbackPlan(
-        "Modelo devolvió JSON inválido",
-        Boolean(session.authenticatedUser)
-      );
+    // Texto previo a tool_calls (p.ej. "Voy a buscar…"): ya se mostró en vivo,
+    // se cierra y se persiste como mensaje del asistente.
+    if (stream.started && plans[0]?.action === "tool") {
+      stream.done();
+      session.history.push({ role: "assistant", content: stream.text });
+      await saveSession(session);
+    }
 
-    // Telemetría de pensamiento para UI
-    emit({ event: "thought", data: { id: randomUUID(), text: plan.thought } });
+    for (const plan of plans) {
+      // Telemetría de pensamiento para UI
+      emit({
+        event: "thought",
+        data: { id: randomUUID(), text: plan.thought },
+      });
 
-    // Branch: ejecutar tool vs responder texto
-    if (plan.action === "tool") {
-      const outcome = await invokeTool(plan.tool?.name, plan.tool?.input);
-      if (outcome?.status === "success") {
-        await respondWithToolSuccess(outcome);
-        return;
-      }
-      if (outcome) {
-        await respondWithToolError(outcome);
-        return;
+      // Branch: ejecutar tool y volver a planificar vs responder texto
+      if (plan.action === "tool") {
+        const outcome = await invokeTool(plan.tool?.name, plan.tool?.input);
+        if (
+          outcome?.status === "confirmation_required" ||
+          outcome?.status === "needs_input"
+        ) {
+          // Se corta el turno: la tool corre recién con la respuesta del usuario.
+          await respondWithOutcome(outcome);
+          return;
+        }
+        if (outcome) {
+          lastOutcome = outcome;
+          turnDocs.push(...docResultsOf(outcome));
+        }
+        continue; // el resultado (o el error de input) ya quedó en el historial
       }
-      continue; // si outcome fue null por error de parse, permitir otra iteración
+
+      // action === "respond": en modo nativo ya se transmitió token a token.
+      const text = plan.final_response; // por schema, string no vacío
+      if (stream.started) stream.done(buildCitations(turnDocs));
+      else await emitStreamingText(emit, text, buildCitations(turnDocs));
+      session.history.push({ role: "assistant", content: text });
+      await saveSession(session);
+      return;
     }
+  }
 
-    // action === "respond"
-    const text = plan.final_response; // por schema, string no vacío
-    await emitStreamingText(emit, text);
-    session.history.push({ role: "assistant", content: text });
-    await saveSession(session);
+  // Límite de iteraciones alcanzado; protegerse contra loops. Si hubo tools,
+  // al menos se comunica el último resultado obtenido.
+  if (lastOutcome) {
+    emit({
+      event: "thought",
+      data: {
+        id: randomUUID(),
+        text: `Límite de ${maxIters} iteraciones alcanzado; respondo con el último resultado.`,
+      },
+    });
+    await respondWithOutcome(lastOutcome);
     return;
   }
 
-  // Límite de iteraciones alcanzado; protegerse contra loops.
   emit({
     event: "error",
     data: {
@@ -0,0 +1,52 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/chunker.test.ts — chunkMarkdown (fragmentación por encabezados)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chunkMarkdown, estimateTokens } from "@/lib/chunker";
+
+describe("chunkMarkdown", () => {
+  it("arma un fragmento por sección con su breadcrumb", () => {
+    const chunks = chunkMarkdown(
+      "Intro suelta.\n\n# Onboarding\n\nBienvenida.\n\n## Día 5\n\nAssessment final.\n",
+      { maxTokens: 200, overlapTokens: 0 }
+    );
+    assert.deepEqual(
+      chunks.map((c) => [c.breadcrumb, c.text]),
+      [
+        [[], "Intro suelta."],
+        [["Onboarding"], "Bienvenida."],
+        [["Onboarding", "Día 5"], "Assessment final."],
+      ]
+    );
+    assert.equal(chunks[2].embedText, "Onboarding > Día 5\n\nAssessment final.");
+  });
+
+  it("un encabezado del mismo nivel reemplaza al anterior en el breadcrumb", () => {
+    const chunks = chunkMarkdown("# A\n\n## B\n\nuno\n\n## C\n\ndos", { maxTokens: 200 });
+    assert.deepEqual(
+      chunks.map((c) => c.breadcrumb),
+      [
+        ["A", "B"],
+        ["A", "C"],
+      ]
+    );
+  });
+
+  it("respeta el tope de tokens partiendo párrafos largos", () => {
+    const sentence = "Esta es una oración de relleno para el test. ";
+    const chunks = chunkMarkdown(`# Largo\n\n${sentence.repeat(40)}`, {
+      maxTokens: 60,
+      overlapTokens: 10,
+    });
+    assert.ok(chunks.length > 1);
+    for (const c of chunks) assert.ok(estimateTokens(c.text) <= 60, c.text);
+  });
+
+  it("nunca parte un bloque de código", () => {
+    const code = ["```ts", ...Array.from({ length: 30 }, (_, i) => `const x${i} = ${i};`), "```"].join("\n");
+    const chunks = chunkMarkdown(`# Código\n\n${code}`, { maxTokens: 40, overlapTokens: 0 });
+    assert.ok(chunks.some((c) => c.text === code));
+  });
+});
@@ -0,0 +1,229 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/chunker.ts — Fragmentación Markdown por secciones (ingesta RAG)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { parse as parseYaml } from "yaml";
+import { getEmbeddingEnv } from "@/lib/env";
+
+/**
+ * MarkdownChunk: fragmento listo para embeber.
+ * - `text`: cuerpo del fragmento (lo que se guarda en doc_chunk.content).
+ * - `breadcrumb`: encabezados que lo contienen, de mayor a menor nivel.
+ * - `embedText`: breadcrumb + cuerpo; es lo que se embebe y se hashea.
+ */
+export interface MarkdownChunk {
+  text: string;
+  breadcrumb: string[];
+  embedText: string;
+}
+
+export interface ChunkOptions {
+  maxTokens?: number;
+  overlapTokens?: number;
+}
+
+type Block = { kind: "text" | "code" | "table"; text: string };
+type Section = { breadcrumb: string[]; blocks: Block[] };
+
+const headingRe = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const fenceRe = /^\s*(```|~~~)/;
+const tableRowRe = /^\s*\|.*\|\s*$/;
+
+/**
+ * estimateTokens(text): estimación de tokens sin tokenizer (~4 caracteres por
+ * token, promedio razonable para español en tokenizers BPE/WordPiece).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Separador de breadcrumb: "Onboarding > Día 5 > Assessment". */
+export const formatBreadcrumb = (breadcrumb: string[]) => breadcrumb.join(" > ");
+
+// ------------------------------ Parseo a bloques -----------------------------
+/**
+ * parseSections(text): recorre líneas y arma secciones (una por encabezado)
+ * con bloques atómicos: código cercado y tablas nunca se parten.
+ */
+function parseSections(text: string): Section[] {
+  const sections: Section[] = [{ breadcrumb: [], blocks: [] }];
+  const stack: { level: number; title: string }[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const current = () => sections[sections.length - 1];
+  const flushParagraph = () => {
+    const body = paragraph.join("\n").trim();
+    if (body) current().blocks.push({ kind: "text", text: body });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fenceRe.test(line)) {
+      // Bloque de código: hasta el cierre con el mismo marcador (o fin de archivo).
+      flushParagraph();
+      const marker = fenceRe.exec(line)![1];
+      const code = [line];
+      while (++i < lines.length) {
+        code.push(lines[i]);
+        if (lines[i].trim().startsWith(marker)) break;
+      }
+      current().blocks.push({ kind: "code", text: code.join("\n") });
+      continue;
+    }
+
+    if (tableRowRe.test(line)) {
+      flushParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && tableRowRe.test(lines[i + 1])) rows.push(lines[++i]);
+      current().blocks.push({ kind: "table", text: rows.join("\n") });
+      continue;
+    }
+
+    const heading = headingRe.exec(line);
+    if (heading) {
+      flushParagraph();
+      const level = heading[1].length;
+      while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, title: heading[2].trim() });
+      sections.push({ breadcrumb: stack.map((h) => h.title), blocks: [] });
+      continue;
+    }
+
+    if (!line.trim()) flushParagraph();
+    else paragraph.push(line);
+  }
+  flushParagraph();
+  return sections.filter((s) => s.blocks.length);
+}
+
+/**
+ * markdownHeadings(text): encabezados "#" en orden, sin contar los que están
+ * dentro de bloques de código.
+ */
+export function markdownHeadings(text: string): string[] {
+  const headings: string[] = [];
+  let inFence = false;
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    if (fenceRe.test(line)) inFence = !inFence;
+    const match = inFence ? null : headingRe.exec(line);
+    if (match) headings.push(match[2].trim());
+  }
+  return headings;
+}
+
+// Bloque YAML al inicio del archivo, cerrado por "---" o "...".
+const frontMatterRe = /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * splitFrontMatter(text): separa el bloque YAML inicial ("---" … "---").
+ * - Un YAML inválido o que no es un objeto se trata como texto normal.
+ */
+export function splitFrontMatter(text: string) {
+  const match = frontMatterRe.exec(text);
+  if (!match) return { frontMatter: undefined, body: text };
+  try {
+    const data: unknown = parseYaml(match[1]);
+    if (data && typeof data === "object" && !Array.isArray(data))
+      return {
+        frontMatter: data as Record<string, unknown>,
+        body: text.slice(match[0].length),
+      };
+  } catch {
+    // sin front-matter válido: el bloque queda en el cuerpo
+  }
+  return { frontMatter: undefined, body: text };
+}
+
+// --------------------------------- Empaquetado --------------------------------
+/**
+ * pack(units, max, overlap, sep): agrupa unidades en ventanas de hasta `max`
+ * tokens. Cada ventana nueva arranca con las últimas unidades de la anterior
+ * que entran en `overlap` tokens. Una unidad más grande que `max` va sola.
+ */
+function pack(units: string[], max: number, overlap: number, sep: string) {
+  const windows: string[][] = [];
+  let window: string[] = [];
+  let size = 0;
+
+  for (const unit of units) {
+    const tokens = estimateTokens(unit);
+    if (window.length && size + tokens > max) {
+      windows.push(window);
+      const carry: string[] = [];
+      let carried = 0;
+      for (let j = window.length - 1; j >= 0; j--) {
+        const t = estimateTokens(window[j]);
+        if (carried + t > overlap) break;
+        carry.unshift(window[j]);
+        carried += t;
+      }
+      window = carry;
+      size = carried;
+    }
+    window.push(unit);
+    size += tokens;
+  }
+  if (window.length) windows.push(window);
+  return windows.map((w) => w.join(sep));
+}
+
+// Párrafo largo → oraciones (o palabras si una oración no entra) con solapamiento.
+function splitParagraph(text: string, max: number, overlap: number) {
+  const units = text
+    .split(/(?<=[.!?…])\s+/)
+    .flatMap((sentence) =>
+      estimateTokens(sentence) > max ? sentence.split(/\s+/) : [sentence]
+    );
+  return pack(units, max, overlap, " ");
+}
+
+// Tamaños efectivos: opciones explícitas o el env de embeddings (la ingesta
+// corre sin la config del LLM).
+function resolveSizes(options: ChunkOptions) {
+  const env = getEmbeddingEnv();
+  const max = options.maxTokens ?? env.CHUNK_MAX_TOKENS;
+  const overlap = options.overlapTokens ?? env.CHUNK_OVERLAP_TOKENS;
+  return { max, overlap: Math.min(overlap, Math.floor(max / 2)) };
+}
+
+/**
+ * chunkMarkdown(text, options): fragmenta respetando los encabezados.
+ * - Ningún fragmento cruza de una sección a otra; cada uno lleva su breadcrumb.
+ * - Bloques de código y tablas quedan enteros aunque superen el máximo.
+ * - Tamaños en tokens estimados (CHUNK_MAX_TOKENS / CHUNK_OVERLAP_TOKENS); el
+ *   solapamiento se aplica al partir párrafos largos.
+ * - Sirve también para texto plano: sin encabezados es una sola sección.
+ */
+export function chunkMarkdown(
+  text: string,
+  options: ChunkOptions = {}
+): MarkdownChunk[] {
+  const { max, overlap } = resolveSizes(options);
+  const chunks: MarkdownChunk[] = [];
+
+  for (const { breadcrumb, blocks } of parseSections(text)) {
+    const units = blocks.flatMap((block) =>
+      block.kind === "text" && estimateTokens(block.text) > max
+        ? splitParagraph(block.text, max, overlap)
+        : [block.text]
+    );
+    for (const body of pack(units, max, 0, "\n\n")) {
+      const trail = formatBreadcrumb(breadcrumb);
+      chunks.push({
+        text: body,
+        breadcrumb,
+        embedText: trail ? `${trail}\n\n${body}` : body,
+      });
+    }
+  }
+  return chunks;
+}
+
+/** Firma de la configuración del chunker (para detectar re-fragmentaciones). */
+export function chunkerSignature(options: ChunkOptions = {}) {
+  const { max, overlap } = resolveSizes(options);
+  return `markdown-v1/${max}/${overlap}`;
+}
@@ -35,6 +35,32 @@ export function createClientConversationId() {
   return Math.random().toString(36).slice(2);
 }
 
+// Clave de localStorage para reutilizar la sesión del backend tras recargar.
+const CONVERSATION_STORAGE_KEY = "laburen.conversationId";
+
+/**
+ * loadStoredConversationId(): recupera el conversationId persistido, si existe.
+ * - Tolera entornos sin localStorage (SSR, modo privado estricto).
+ */
+export function loadStoredConversationId(): string | null {
+  try {
+    return window.localStorage.getItem(CONVERSATION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * storeConversationId(id): persiste el conversationId activo en localStorage.
+ */
+export function storeConversationId(id: string) {
+  try {
+    window.localStorage.setItem(CONVERSATION_STORAGE_KEY, id);
+  } catch {
+    // sin persistencia: la próxima recarga abre una sesión nueva
+  }
+}
+
 /**
  * parseAgentEvent(payload): parsea un bloque SSE (Server-Sent Events) a {name,data}.
  *
@@ -2,7 +2,12 @@
 // File: src/lib/db.ts — Pool de Postgres y helpers de consulta
 // ──────────────────────────────────────────────────────────────────────────────
 
-import { Pool, type QueryResult, type QueryResultRow } from "pg";
+import {
+  Pool,
+  type PoolClient,
+  type QueryResult,
+  type QueryResultRow,
+} from "pg";
 
 let _pool: Pool | null = null; // caché de Pool por proceso; evita crear conexiones redundantes
 
@@ -41,3 +46,25 @@ export async function queryOne<T extends QueryResultRow = QueryResultRow>(
   const res = await query<T>(text, params);
   return res.rows[0] ?? null;
 }
+
+/**
+ * withTransaction(fn): ejecuta `fn` con un cliente dedicado dentro de
+ * BEGIN/COMMIT; ante cualquier error hace ROLLBACK y relanza.
+ * - Todas las consultas deben usar el `client` recibido, no `query`.
+ */
+export async function withTransaction<T>(
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await ensurePool().connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (e) {
+    await client.query("ROLLBACK").catch(() => undefined);
+    throw e;
+  } finally {
+    client.release();
+  }
+}
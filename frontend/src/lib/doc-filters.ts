@@ -0,0 +1,128 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/doc-filters.ts — Colecciones, etiquetas y filtros de metadata RAG
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { z } from "zod";
+
+/**
+ * Campos de front-matter que se guardan en doc.meta como listas y se pueden
+ * usar como filtro (además de `collection` y `tags`).
+ */
+export const labelFields = ["team", "product", "language", "audience"] as const;
+export type LabelField = (typeof labelFields)[number];
+
+/**
+ * DocLabels: lo que se filtra en doc.meta.
+ * - `collection`: front-matter `collection` o primer directorio bajo DOCS_ROOT
+ *   ("integraciones/hubspot.md" → "integraciones"; en la raíz, "general").
+ * - `tags` y los campos de `labelFields`: listas normalizadas.
+ */
+export type DocLabels = { collection: string; tags: string[] } & Partial<
+  Record<LabelField, string[]>
+>;
+
+export const DEFAULT_COLLECTION = "general";
+
+// Minúsculas, sin acentos ni espacios extra: "Integraciones " → "integraciones".
+export const normalizeLabel = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, "-");
+
+// Front-matter admite lista YAML o texto separado por comas ("crm, hubspot").
+function toLabelList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(",")
+    : [];
+  const labels = items
+    .filter((v): v is string | number => ["string", "number"].includes(typeof v))
+    .map((v) => normalizeLabel(String(v)))
+    .filter(Boolean);
+  return Array.from(new Set(labels));
+}
+
+/**
+ * docLabels(relativePath, frontMatter): colección y etiquetas de un documento.
+ * - Acepta `tag` como alias de `tags`; claves desconocidas se ignoran.
+ */
+export function docLabels(
+  relativePath: string,
+  frontMatter: Record<string, unknown> = {}
+): DocLabels {
+  const segments = relativePath.split(/[\\/]/).filter((s) => s && s !== ".");
+  const fromPath = segments.length > 1 ? segments[0] : DEFAULT_COLLECTION;
+  const declared =
+    typeof frontMatter.collection === "string" ? frontMatter.collection : "";
+  const labels: DocLabels = {
+    collection: normalizeLabel(declared) || normalizeLabel(fromPath),
+    tags: toLabelList(frontMatter.tags ?? frontMatter.tag),
+  };
+  for (const field of labelFields) {
+    const values = toLabelList(frontMatter[field]);
+    if (values.length) labels[field] = values;
+  }
+  return labels;
+}
+
+// ---------------------------------- Filtros ----------------------------------
+const labelFilter = (what: string) =>
+  z.string().min(1).optional().describe(`${what}, según el front-matter`);
+
+/**
+ * docFilterSchema: filtros de search_docs. Todos se combinan con AND y las
+ * `tags` deben estar todas presentes en el documento.
+ */
+export const docFilterSchema = z.object({
+  collection: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("colección de documentos, p.ej. integraciones u onboarding"),
+  tags: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("etiquetas que el documento debe tener todas, p.ej. [\"crm\"]"),
+  team: labelFilter("equipo dueño del documento"),
+  product: labelFilter("producto"),
+  language: labelFilter("idioma (es, en…)"),
+  audience: labelFilter("audiencia"),
+});
+
+export type DocFilter = z.infer<typeof docFilterSchema>;
+
+/**
+ * toMetaContainment(filter): objeto para `doc.meta @> $n::jsonb` (o null si no
+ * hay filtros). Los valores se normalizan igual que en la ingesta.
+ */
+export function toMetaContainment(filter: DocFilter | undefined) {
+  if (!filter) return null;
+  const containment: Record<string, string | string[]> = {};
+  if (filter.collection) containment.collection = normalizeLabel(filter.collection);
+  const tags = toLabelList(filter.tags);
+  if (tags.length) containment.tags = tags;
+  for (const field of labelFields) {
+    const value = filter[field];
+    if (value) containment[field] = [normalizeLabel(value)];
+  }
+  return Object.keys(containment).length ? containment : null;
+}
+
+/**
+ * matchesFilter(labels, filter): `doc.meta @> filtro` evaluado en memoria
+ * (corpus local de static-docs.ts). Sin filtros, todo matchea.
+ */
+export function matchesFilter(labels: DocLabels, filter: DocFilter | undefined) {
+  const containment = toMetaContainment(filter);
+  if (!containment) return true;
+  return Object.entries(containment).every(([key, wanted]) => {
+    const have = labels[key as keyof DocLabels];
+    return Array.isArray(wanted)
+      ? wanted.every((w) => Array.isArray(have) && have.includes(w))
+      : have === wanted;
+  });
+}
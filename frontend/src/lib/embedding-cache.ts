@@ -0,0 +1,170 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/embedding-cache.ts — Caché de embeddings (LRU en memoria + Postgres)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { createHash } from "crypto";
+import { query } from "@/lib/db";
+import { getEmbeddingEnv } from "@/lib/env";
+import { toPgVector } from "@/lib/utils";
+
+/**
+ * EmbeddingSpace: a qué espacio vectorial pertenece un embedding.
+ * - `model`: "proveedor/modelo" (p.ej. "ollama/nomic-embed-text").
+ * - `dim`: EMBEDDING_DIM. Cambiar modelo o dimensión cambia la clave, así que
+ *   las entradas viejas dejan de usarse solas (y la ingesta las purga).
+ */
+export type EmbeddingSpace = { model: string; dim: number };
+
+/**
+ * EmbeddingCacheStats: contadores del proceso (desde que arrancó).
+ * - `memoryHits`: resueltos por el LRU; `dbHits`: por la tabla embedding_cache;
+ *   `misses`: textos que hubo que mandar al proveedor. Todo se cuenta por
+ *   texto distinto (hash), no por aparición en el lote.
+ */
+export type EmbeddingCacheStats = {
+  memoryHits: number;
+  dbHits: number;
+  misses: number;
+  entries: number; // entradas en el LRU
+  capacity: number; // EMBEDDING_CACHE_SIZE
+};
+
+const counters = { memoryHits: 0, dbHits: 0, misses: 0 };
+const lru = new Map<string, number[]>(); // orden de inserción = orden de uso
+// Filas por INSERT al guardar (los vectores viajan como texto).
+const STORE_BATCH = 100;
+// Se avisa una vez por racha de fallos de la tabla (p.ej. Postgres caído).
+let dbWarned = false;
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+const capacity = () => getEmbeddingEnv().EMBEDDING_CACHE_SIZE;
+const dbEnabled = () => getEmbeddingEnv().EMBEDDING_CACHE === "on";
+const lruKey = (space: EmbeddingSpace, hash: string) =>
+  `${space.model}/${space.dim}/${hash}`;
+
+function lruGet(key: string) {
+  const vector = lru.get(key);
+  if (vector) {
+    lru.delete(key);
+    lru.set(key, vector);
+  }
+  return vector;
+}
+
+function lruSet(key: string, vector: number[]) {
+  const max = capacity();
+  if (max === 0) return;
+  lru.delete(key);
+  lru.set(key, vector);
+  while (lru.size > max) lru.delete(lru.keys().next().value as string);
+}
+
+// La caché nunca rompe un embedding: ante error de DB se sigue sin ella.
+async function withDb<T>(fallback: T, fn: () => Promise<T>): Promise<T> {
+  try {
+    const value = await fn();
+    dbWarned = false;
+    return value;
+  } catch (err) {
+    if (!dbWarned) console.warn("[embedding-cache] tabla no disponible, sigo sin caché", err);
+    dbWarned = true;
+    return fallback;
+  }
+}
+
+async function loadFromDb(space: EmbeddingSpace, hashes: string[]) {
+  const res = await query<{ text_hash: string; embedding: string }>(
+    `SELECT text_hash, embedding::text AS embedding
+       FROM embedding_cache
+      WHERE model = $1 AND dim = $2 AND text_hash = ANY($3::text[])`,
+    [space.model, space.dim, hashes]
+  );
+  return new Map(res.rows.map((r) => [r.text_hash, JSON.parse(r.embedding) as number[]]));
+}
+
+async function storeInDb(space: EmbeddingSpace, entries: [string, number[]][]) {
+  for (let i = 0; i < entries.length; i += STORE_BATCH) {
+    const batch = entries.slice(i, i + STORE_BATCH);
+    await query(
+      `INSERT INTO embedding_cache (model, dim, text_hash, embedding)
+       SELECT $1, $2, h, e::vector FROM unnest($3::text[], $4::text[]) AS t(h, e)
+       ON CONFLICT DO NOTHING`,
+      [space.model, space.dim, batch.map(([h]) => h), batch.map(([, v]) => toPgVector(v))]
+    );
+  }
+}
+
+/**
+ * cachedEmbeddings(space, texts, compute): vectores de `texts` en orden.
+ * - Deduplica por hash antes de todo: textos repetidos cuentan una vez en los
+ *   contadores y viajan una sola vez a `compute`.
+ * - Busca primero en el LRU, luego en embedding_cache y sólo manda a
+ *   `compute` los textos que faltan.
+ * - Guarda lo calculado si su largo coincide con `space.dim` (un vector de
+ *   otra dimensión nunca queda cacheado).
+ * - `onCached(n)` informa cuántos textos no se mandan al proveedor (cacheados
+ *   o repetidos), para que el progreso llegue a `texts.length`.
+ */
+export async function cachedEmbeddings(
+  space: EmbeddingSpace,
+  texts: string[],
+  compute: (texts: string[]) => Promise<number[][]>,
+  onCached?: (count: number) => void
+): Promise<number[][]> {
+  const hashes = texts.map(sha256);
+  const textOf = new Map(hashes.map((h, i) => [h, texts[i]]));
+  const resolved = new Map<string, number[]>();
+  for (const h of textOf.keys()) {
+    const vector = lruGet(lruKey(space, h));
+    if (vector) resolved.set(h, vector);
+  }
+  counters.memoryHits += resolved.size;
+
+  const unresolved = () => [...textOf.keys()].filter((h) => !resolved.has(h));
+  if (dbEnabled() && unresolved().length) {
+    const found = await withDb(new Map<string, number[]>(), () =>
+      loadFromDb(space, unresolved())
+    );
+    for (const [h, vector] of found) {
+      if (resolved.has(h)) continue;
+      resolved.set(h, vector);
+      counters.dbHits++;
+      lruSet(lruKey(space, h), vector);
+    }
+  }
+  const pending = unresolved();
+  onCached?.(texts.length - pending.length);
+
+  if (pending.length) {
+    const vectors = await compute(pending.map((h) => textOf.get(h)!));
+    counters.misses += pending.length;
+    const computed = pending.map((h, i) => [h, vectors[i]] as [string, number[]]);
+    computed.forEach(([h, v]) => resolved.set(h, v));
+
+    const storable = computed.filter(([, v]) => v?.length === space.dim);
+    storable.forEach(([h, v]) => lruSet(lruKey(space, h), v));
+    if (dbEnabled() && storable.length)
+      await withDb(undefined, () => storeInDb(space, storable));
+  }
+  return hashes.map((h) => resolved.get(h)!);
+}
+
+/**
+ * pruneEmbeddingCache(space): borra de la tabla las entradas de otros
+ * modelos/dimensiones (lo llama la ingesta al arrancar). Devuelve cuántas.
+ */
+export async function pruneEmbeddingCache(space: EmbeddingSpace): Promise<number> {
+  if (!dbEnabled()) return 0;
+  return withDb(0, async () => {
+    const res = await query(
+      "DELETE FROM embedding_cache WHERE model <> $1 OR dim <> $2",
+      [space.model, space.dim]
+    );
+    return res.rowCount ?? 0;
+  });
+}
+
+/** embeddingCacheStats(): contadores de hits/misses y ocupación del LRU. */
+export function embeddingCacheStats(): EmbeddingCacheStats {
+  return { ...counters, entries: lru.size, capacity: capacity() };
+}
@@ -1,7 +1,26 @@
 // ──────────────────────────────────────────────────────────────────────────────
-// File: src/lib/embeddings.ts — Cliente de embeddings compatible con Ollama
+// File: src/lib/embeddings.ts — Proveedores de embeddings (Ollama, OpenAI, hash)
 // ──────────────────────────────────────────────────────────────────────────────
 
+import { createHash } from "crypto";
+import { cachedEmbeddings, type EmbeddingSpace } from "@/lib/embedding-cache";
+import { getEmbeddingEnv } from "@/lib/env";
+import { delay } from "@/lib/utils";
+
+/**
+ * EmbeddingProvider: backend de embeddings elegido por EMBEDDING_PROVIDER.
+ * - `ollama`: /api/embed y /api/embeddings (legacy) en OLLAMA_BASE_URL.
+ * - `openai`: cualquier servidor con /v1/embeddings (EMBEDDING_BASE_URL).
+ * - `hash`: embedder determinista local (tests/offline), sin red.
+ */
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  embed(text: string): Promise<number[]>;
+  /** Un request para varios textos; devuelve vectores en el mismo orden. */
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
 type OllamaEmbed = { embeddings: number[][] }; // formato nuevo: múltiples embeddings
 type OllamaLegacy = { embedding: number[] }; // formato legacy: un solo embedding
 
@@ -45,8 +64,9 @@ async function fetchWithTimeout(url: string, init: RequestInit, ms = 8_000) {
   }
 }
 
+// ---------------------------------- Ollama ----------------------------------
 /**
- * createEmbedding(text): obtiene un embedding para 'text' con tres intentos
+ * ollamaEmbed(text): obtiene un embedding para 'text' con tres intentos
  * de compatibilidad:
  *  1) POST /api/embed con input: string
  *  2) POST /api/embed con input: [string]
@@ -54,9 +74,9 @@ async function fetchWithTimeout(url: string, init: RequestInit, ms = 8_000) {
  *
  * Lanza error si todas las variantes fallan o responden sin vector.
  */
-export async function createEmbedding(text: string): Promise<number[]> {
-  const url = process.env.OLLAMA_BASE_URL || "http://127.0.0.1:11434";
-  const model = process.env.EMBEDDING_MODEL || "nomic-embed-text";
+async function ollamaEmbed(text: string): Promise<number[]> {
+  const { OLLAMA_BASE_URL: url, EMBEDDING_MODEL: model = "nomic-embed-text" } =
+    getEmbeddingEnv();
 
   // 1) /api/embed con string
   let res = await fetchWithTimeout(`${url}/api/embed`, {
@@ -94,3 +114,274 @@ export async function createEmbedding(text: string): Promise<number[]> {
   const body = await res.text().catch(() => "");
   throw new Error(`Embeddings vacíos. Última resp: ${res.status} ${body}`);
 }
+
+/**
+ * ollamaEmbedBatch(texts): POST /api/embed con input: string[].
+ * - Servidores viejos sin /api/embed degradan a un request por texto.
+ */
+async function ollamaEmbedBatch(texts: string[]): Promise<number[][]> {
+  const { OLLAMA_BASE_URL: url, EMBEDDING_MODEL: model = "nomic-embed-text" } =
+    getEmbeddingEnv();
+
+  const res = await fetchWithTimeout(
+    `${url}/api/embed`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, input: texts }),
+    },
+    30_000
+  );
+  if (res.ok) {
+    const j: unknown = await res.json().catch(() => ({}));
+    if (hasEmbeddings(j) && j.embeddings.length === texts.length)
+      return j.embeddings;
+  }
+
+  const vectors: number[][] = [];
+  for (const text of texts) vectors.push(await ollamaEmbed(text));
+  return vectors;
+}
+
+// ----------------------------- OpenAI-compatible -----------------------------
+/**
+ * openaiEmbedBatch(texts): POST {EMBEDDING_BASE_URL}/embeddings (formato OpenAI).
+ * - EMBEDDING_BASE_URL incluye el prefijo de versión (p.ej. .../v1).
+ * - EMBEDDING_API_KEY es opcional (servidores locales sin auth).
+ * - Ordena por `index` porque la spec no garantiza el orden de `data`.
+ */
+async function openaiEmbedBatch(texts: string[]): Promise<number[][]> {
+  const {
+    EMBEDDING_BASE_URL: base,
+    EMBEDDING_MODEL: model = "text-embedding-3-small",
+    EMBEDDING_API_KEY: key,
+  } = getEmbeddingEnv();
+  if (!base) throw new Error("EMBEDDING_BASE_URL ausente para embeddings openai");
+
+  const res = await fetchWithTimeout(
+    `${base.replace(/\/$/, "")}/embeddings`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(key ? { Authorization: `Bearer ${key}` } : {}),
+      },
+      body: JSON.stringify({ model, input: texts }),
+    },
+    30_000
+  );
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`Embeddings openai ${res.status}: ${body || res.statusText}`);
+  }
+  const j: any = await res.json().catch(() => ({}));
+  const data: any[] = Array.isArray(j?.data) ? [...j.data] : [];
+  data.sort((a, b) => (a?.index ?? 0) - (b?.index ?? 0));
+  const vectors = data.map((d) => d?.embedding);
+  if (
+    vectors.length !== texts.length ||
+    vectors.some((v) => !Array.isArray(v) || typeof v[0] !== "number")
+  )
+    throw new Error("Embeddings openai: respuesta sin vectores");
+  return vectors;
+}
+
+const openaiEmbed = async (text: string) => (await openaiEmbedBatch([text]))[0];
+
+// ------------------------------- Hash (local) --------------------------------
+/**
+ * hashEmbed(text, dim): "feature hashing" de palabras y bigramas normalizados
+ * (minúsculas, sin acentos) a un vector L2-normalizado de `dim` posiciones.
+ * - Determinista y sin red: textos con palabras en común quedan cerca en
+ *   distancia coseno, suficiente para tests y desarrollo offline.
+ */
+export function hashEmbed(text: string, dim: number): number[] {
+  const vector = new Array<number>(dim).fill(0);
+  const words =
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .match(/[a-z0-9]+/g) ?? [];
+  const features = [
+    ...words,
+    ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+  ];
+
+  for (const feature of features) {
+    const digest = createHash("sha256").update(feature).digest();
+    const index = digest.readUInt32BE(0) % dim;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.hypot(...vector);
+  return norm ? vector.map((v) => v / norm) : vector;
+}
+
+// ---------------------------------- Registro ---------------------------------
+
+/** Error de arranque: la dimensión del proveedor no coincide con EMBEDDING_DIM. */
+export class EmbeddingDimensionError extends Error {}
+
+/**
+ * getEmbeddingProvider(): proveedor según EMBEDDING_PROVIDER (default "ollama").
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const env = getEmbeddingEnv();
+  const name = env.EMBEDDING_PROVIDER;
+  switch (name) {
+    case "ollama":
+      return {
+        name,
+        model: env.EMBEDDING_MODEL ?? "nomic-embed-text",
+        embed: ollamaEmbed,
+        embedBatch: ollamaEmbedBatch,
+      };
+    case "openai":
+      return {
+        name,
+        model: env.EMBEDDING_MODEL ?? "text-embedding-3-small",
+        embed: openaiEmbed,
+        embedBatch: openaiEmbedBatch,
+      };
+    case "hash": {
+      const dim = env.EMBEDDING_DIM;
+      return {
+        name,
+        model: `hash-${dim}`,
+        embed: async (text) => hashEmbed(text, dim),
+        embedBatch: async (texts) => texts.map((text) => hashEmbed(text, dim)),
+      };
+    }
+    default:
+      throw new Error(`EMBEDDING_PROVIDER desconocido: ${name}`);
+  }
+}
+
+/**
+ * embeddingSpace(provider): clave de caché "proveedor/modelo" + EMBEDDING_DIM.
+ * - El proveedor `hash` calcula local y no pasa por la caché (null).
+ */
+function embeddingSpace(provider: EmbeddingProvider): EmbeddingSpace | null {
+  if (provider.name === "hash") return null;
+  return {
+    model: `${provider.name}/${provider.model}`,
+    dim: getEmbeddingEnv().EMBEDDING_DIM,
+  };
+}
+
+/**
+ * createEmbedding(text): embedding de `text` con el proveedor configurado.
+ * - Pasa por la caché (LRU + embedding_cache): preguntas repetidas no vuelven
+ *   a llamar al proveedor.
+ */
+export async function createEmbedding(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
+  const space = embeddingSpace(provider);
+  if (!space) return provider.embed(text);
+  const [vector] = await cachedEmbeddings(space, [text], async ([t]) => [
+    await provider.embed(t),
+  ]);
+  return vector;
+}
+
+export type EmbedBatchOptions = {
+  batchSize?: number; // textos por request (default EMBEDDING_BATCH_SIZE o 32)
+  concurrency?: number; // requests en vuelo (default EMBEDDING_CONCURRENCY o 2)
+  requestsPerSecond?: number; // 0 = sin límite (default EMBEDDING_RPS)
+  onProgress?: (done: number, total: number) => void;
+};
+
+/**
+ * createEmbeddings(texts, options): embeddings de muchos textos en lotes.
+ * - Los textos ya cacheados (LRU o embedding_cache) no se vuelven a pedir y
+ *   cuentan como hechos en `onProgress`.
+ * - Parte el resto en lotes de `batchSize` y procesa hasta `concurrency` a la vez.
+ * - `requestsPerSecond` espacia el inicio de cada request (rate limit simple).
+ * - Devuelve los vectores en el mismo orden que `texts`.
+ */
+export async function createEmbeddings(
+  texts: string[],
+  options: EmbedBatchOptions = {}
+): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
+  const space = embeddingSpace(provider);
+  if (!space) return embedInBatches(provider, texts, options);
+  let cached = 0;
+  return cachedEmbeddings(
+    space,
+    texts,
+    (pending) =>
+      embedInBatches(provider, pending, {
+        ...options,
+        onProgress: (done) => options.onProgress?.(cached + done, texts.length),
+      }),
+    (count) => {
+      cached = count;
+      if (count) options.onProgress?.(count, texts.length);
+    }
+  );
+}
+
+// Lotes concurrentes contra el proveedor (sin caché).
+async function embedInBatches(
+  provider: EmbeddingProvider,
+  texts: string[],
+  options: EmbedBatchOptions
+): Promise<number[][]> {
+  const env = getEmbeddingEnv();
+  const batchSize = Math.max(1, options.batchSize ?? env.EMBEDDING_BATCH_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? env.EMBEDDING_CONCURRENCY);
+  const rps = options.requestsPerSecond ?? env.EMBEDDING_RPS;
+  const minGap = rps > 0 ? 1000 / rps : 0;
+
+  const batches: number[] = [];
+  for (let start = 0; start < texts.length; start += batchSize) batches.push(start);
+
+  const out = new Array<number[]>(texts.length);
+  let next = 0;
+  let done = 0;
+  let nextSlot = Date.now();
+
+  const worker = async () => {
+    while (next < batches.length) {
+      const start = batches[next++];
+      if (minGap) {
+        const wait = nextSlot - Date.now();
+        nextSlot = Math.max(nextSlot, Date.now()) + minGap;
+        if (wait > 0) await delay(wait);
+      }
+      const slice = texts.slice(start, start + batchSize);
+      const vectors = await provider.embedBatch(slice);
+      vectors.forEach((v, i) => (out[start + i] = v));
+      done += slice.length;
+      options.onProgress?.(done, texts.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, batches.length) }, worker)
+  );
+  return out;
+}
+
+/**
+ * verifyEmbeddingDimension(): compara la dimensión real del proveedor con
+ * EMBEDDING_DIM (default 768), que debe coincidir con vector(N) en init.sql.
+ * - Usa getEmbeddingEnv(): la ingesta no necesita la config del LLM.
+ * - Lanza error si no coinciden; devuelve proveedor y dimensión si está ok.
+ */
+export async function verifyEmbeddingDimension() {
+  const provider = getEmbeddingProvider();
+  const expected = getEmbeddingEnv().EMBEDDING_DIM;
+  // Directo al proveedor: la caché guarda bajo EMBEDDING_DIM, así que un hit
+  // confirmaría el valor configurado sin consultar el modelo real.
+  const actual = (await provider.embed("probe")).length;
+  if (actual !== expected) {
+    throw new EmbeddingDimensionError(
+      `Dimensión inconsistente (${provider.name}/${provider.model}): esperado=${expected} actual=${actual}. ` +
+        `Ajustá EMBEDDING_DIM y vector(N) en init.sql.`
+    );
+  }
+  return { provider: provider.name, model: provider.model, dim: actual };
+}
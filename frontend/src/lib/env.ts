@@ -6,29 +6,121 @@ import { z } from "zod";
 
 /**
  * Esquema de ENV. Define defaults y valida presencia de claves sensibles.
- * - EMBEDDING_DIM impacta el tipo vector(N) en base de datos.
+ * - EMBEDDING_DIM impacta el tipo vector(N) en base de datos; se verifica
+ *   contra el proveedor al iniciar el server (instrumentation.ts).
+ * - EMBEDDING_PROVIDER elige ollama, openai (/v1/embeddings en
+ *   EMBEDDING_BASE_URL) o hash (determinista, sin red).
  * - OLLAMA_BASE_URL apunta al contenedor/host del servidor de embeddings.
+ * - EMBEDDING_BATCH_SIZE / _CONCURRENCY / _RPS regulan createEmbeddings.
+ * - EMBEDDING_CACHE (on | off) usa la tabla embedding_cache; EMBEDDING_CACHE_SIZE
+ *   es el tope del LRU en memoria (0 = sin LRU).
+ * - CHUNK_MAX_TOKENS / CHUNK_OVERLAP_TOKENS dimensionan los fragmentos (tokens estimados).
+ * - SEARCH_MODE es el modo de searchDocuments cuando search_docs no lo indica.
+ * - RERANK (none | local | llm) reordena RERANK_CANDIDATES candidatos antes de recortar.
+ * - QUERY_REWRITE (on | off) vuelve autónomas las preguntas de seguimiento con el
+ *   historial; QUERY_PARAPHRASES suma variantes cuyos resultados se fusionan.
+ * - FALLBACK_DOCS_ROOT: Markdown del corpus BM25 que usa search_docs si la
+ *   búsqueda vectorial falla (static-docs.ts).
  * - NEXT_PUBLIC_BACKEND_URL se expone al cliente (prefijo de fetch en frontend).
+ * - LLM_TOOL_MODE elige planes JSON en texto (default, cualquier modelo) o
+ *   function calling nativo; native vuelve a JSON si la cadena rechaza `tools`.
+ * - LLM_PROVIDER=scripted responde desde el fixture LLM_SCRIPT_PATH (offline).
+ * - LLM_MODEL_* eligen modelo por propósito; LLM_FALLBACK_MODELS completa la
+ *   cadena. Un modelo "local:<nombre>" usa LLM_LOCAL_BASE_URL (OpenAI-compatible).
+ * - DISABLED_INTENTS apaga fast-paths del registro de intents (lista por coma).
+ * - OPENROUTER_API_KEY es obligatoria salvo con LLM_PROVIDER=scripted.
+ * - Las claves de embeddings y chunking forman un subconjunto propio
+ *   (getEmbeddingEnv) para que la ingesta no dependa de la config del LLM.
  */
-const schema = z.object({
-  OPENROUTER_API_KEY: z.string().min(1),
-  OPENROUTER_MODEL: z.string().default("openrouter/auto"),
-  EMBEDDING_MODEL: z.string().default("nomic-embed-text"),
+const embeddingSchema = z.object({
+  EMBEDDING_PROVIDER: z.enum(["ollama", "openai", "hash"]).default("ollama"),
+  // Sin default propio: cada proveedor tiene el suyo (embeddings.ts).
+  EMBEDDING_MODEL: z.string().min(1).optional(),
+  EMBEDDING_BASE_URL: z.string().optional(),
+  EMBEDDING_API_KEY: z.string().optional(),
+  EMBEDDING_BATCH_SIZE: z.coerce.number().int().positive().default(32),
+  EMBEDDING_CONCURRENCY: z.coerce.number().int().positive().default(2),
+  EMBEDDING_RPS: z.coerce.number().min(0).default(0),
   EMBEDDING_DIM: z.coerce.number().int().positive().default(768),
-  OLLAMA_BASE_URL: z.string().default("http://ollama:11434"),
-  DATABASE_URL: z.string().min(1),
-  DOCS_ROOT: z.string().default("../data"),
-  MAX_TOOL_ITERATIONS: z.coerce.number().int().positive().default(4),
-  NEXT_PUBLIC_BACKEND_URL: z.string().optional(),
+  EMBEDDING_CACHE: z.enum(["on", "off"]).default("on"),
+  EMBEDDING_CACHE_SIZE: z.coerce.number().int().min(0).default(1000),
+  CHUNK_MAX_TOKENS: z.coerce.number().int().positive().default(256),
+  CHUNK_OVERLAP_TOKENS: z.coerce.number().int().min(0).default(32),
+  OLLAMA_BASE_URL: z.string().default("http://127.0.0.1:11434"),
 });
 
-let cached: any; // cache en proceso para evitar reparseos
+const schema = embeddingSchema
+  .extend({
+    OPENROUTER_API_KEY: z.string().min(1).optional(),
+    OPENROUTER_MODEL: z.string().default("openrouter/auto"),
+    LLM_TOOL_MODE: z.enum(["native", "json"]).default("json"),
+    LLM_PROVIDER: z.enum(["openrouter", "scripted"]).default("openrouter"),
+    LLM_SCRIPT_PATH: z.string().default("fixtures/llm-script.json"),
+    LLM_MODEL_PLANNING: z.string().optional(),
+    LLM_MODEL_SYNTHESIS: z.string().optional(),
+    LLM_MODEL_SUMMARY: z.string().optional(),
+    LLM_MODEL_RERANK: z.string().optional(),
+    LLM_MODEL_REWRITE: z.string().optional(),
+    LLM_FALLBACK_MODELS: z.string().default(""),
+    LLM_LOCAL_BASE_URL: z.string().optional(),
+    LLM_LOCAL_API_KEY: z.string().optional(),
+    LLM_TIMEOUT_MS: z.coerce.number().int().positive().default(60_000),
+    LLM_MAX_RETRIES: z.coerce.number().int().min(0).default(2),
+    DISABLED_INTENTS: z.string().default(""),
+    SEARCH_MODE: z.enum(["vector", "text", "hybrid"]).default("hybrid"),
+    RERANK: z.enum(["none", "local", "llm"]).default("none"),
+    RERANK_CANDIDATES: z.coerce.number().int().positive().default(20),
+    QUERY_REWRITE: z.enum(["on", "off"]).default("on"),
+    QUERY_PARAPHRASES: z.coerce.number().int().min(0).max(5).default(0),
+    DATABASE_URL: z.string().min(1),
+    DOCS_ROOT: z.string().default("../data"),
+    FALLBACK_DOCS_ROOT: z.string().default("fallback-docs"),
+    MAX_TOOL_ITERATIONS: z.coerce.number().int().positive().default(4),
+    NEXT_PUBLIC_BACKEND_URL: z.string().optional(),
+  });
+
+type EmbeddingEnv = z.infer<typeof embeddingSchema>;
+type Env = z.infer<typeof schema>;
+
+// El proveedor openai necesita base URL en ambos esquemas.
+function checkEmbedding(env: EmbeddingEnv, ctx: z.RefinementCtx) {
+  if (env.EMBEDDING_PROVIDER === "openai" && !env.EMBEDDING_BASE_URL)
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["EMBEDDING_BASE_URL"],
+      message: "Requerida con EMBEDDING_PROVIDER=openai",
+    });
+}
+
+const fullSchema = schema.superRefine((env, ctx) => {
+  if (env.LLM_PROVIDER === "openrouter" && !env.OPENROUTER_API_KEY)
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["OPENROUTER_API_KEY"],
+      message: "Requerida con LLM_PROVIDER=openrouter",
+    });
+  checkEmbedding(env, ctx);
+});
+
+let cached: Env | undefined; // cache en proceso para evitar reparseos
+let cachedEmbedding: EmbeddingEnv | undefined;
 
 /**
  * getEnv(): parsea process.env una vez y retorna valores tipados+defaulted.
  * - Recomendado importarlo en capa de servidor; evitar usarlo en client components.
  */
-export function getEnv() {
-  if (!cached) cached = schema.parse(process.env);
-  return cached as z.infer<typeof schema>;
+export function getEnv(): Env {
+  if (!cached) cached = fullSchema.parse(process.env);
+  return cached;
+}
+
+/**
+ * getEmbeddingEnv(): subconjunto de embeddings y chunking.
+ * - No exige OPENROUTER_API_KEY ni DATABASE_URL: lo usan la ingesta, los
+ *   scripts de búsqueda y el proveedor `hash` sin config del LLM.
+ */
+export function getEmbeddingEnv(): EmbeddingEnv {
+  if (!cachedEmbedding)
+    cachedEmbedding = embeddingSchema.superRefine(checkEmbedding).parse(process.env);
+  return cachedEmbedding;
 }
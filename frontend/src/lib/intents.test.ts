@@ -0,0 +1,71 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/intents.test.ts — splitCommands (multi-comando)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { splitCommands } from "@/lib/intents";
+
+describe("splitCommands", () => {
+  it("devuelve el mensaje entero si no hay cortes", () => {
+    assert.deepEqual(splitCommands("listá mis notas"), ["listá mis notas"]);
+  });
+
+  it("corta en ';' y saltos de línea", () => {
+    assert.deepEqual(splitCommands("listá mis notas; mostrá mis leads\nlistá follow-ups"), [
+      "listá mis notas",
+      "mostrá mis leads",
+      "listá follow-ups",
+    ]);
+  });
+
+  it('corta en " y " + verbo de comando, con o sin acento', () => {
+    assert.deepEqual(splitCommands("listá mis notas y mostrá mis leads"), [
+      "listá mis notas",
+      "mostrá mis leads",
+    ]);
+    assert.deepEqual(splitCommands("lista mis notas, y agenda algo"), [
+      "lista mis notas",
+      "agenda algo",
+    ]);
+  });
+
+  it('no corta en " y " seguido de algo que no es un verbo de comando', () => {
+    for (const text of [
+      "agendá una reunión con Ana y Juan",
+      "listá notas y agendé otra cosa",
+      "listá leads y listados viejos",
+    ])
+      assert.deepEqual(splitCommands(text), [text]);
+  });
+
+  it('"y después/luego/también" corta aunque venga dentro de una nota', () => {
+    assert.deepEqual(splitCommands("registrá una nota: llamé y después listá mis notas"), [
+      "registrá una nota: llamé",
+      "listá mis notas",
+    ]);
+  });
+
+  it("dentro de una nota sólo corta si sigue un pedido completo", () => {
+    assert.deepEqual(
+      splitCommands("registrá una nota: demo ok y agendá un follow-up para mañana a las 10"),
+      ["registrá una nota: demo ok", "agendá un follow-up para mañana a las 10"]
+    );
+    for (const text of [
+      "anotá una nota: llamé y busca presupuesto",
+      "anotá que llamé y busca presupuesto",
+    ])
+      assert.deepEqual(splitCommands(text), [text]);
+  });
+
+  it("la fuente de un lead es texto libre", () => {
+    const text = "creá un lead para Ana con email ana@x.com desde la feria y marca nueva";
+    assert.deepEqual(splitCommands(text), [text]);
+    assert.deepEqual(
+      splitCommands(
+        "creá un lead para Ana con email ana@x.com y agendá un follow-up para mañana a las 10"
+      ),
+      ["creá un lead para Ana con email ana@x.com", "agendá un follow-up para mañana a las 10"]
+    );
+  });
+});
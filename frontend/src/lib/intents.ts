@@ -0,0 +1,497 @@
+/**
+ * src/lib/intents.ts — Registro de intents para los fast-paths del agente
+ *
+ * Propósito: detectar con regex en español los pedidos frecuentes y mapearlos
+ * directo a una tool, sin round-trip al LLM. El agente (agent.ts) recorre el
+ * registro por prioridad y ejecuta la tool del primer intent que matchea.
+ *
+ * Cada intent declara:
+ * - `tool`: herramienta del registro (tools.ts) que ejecuta.
+ * - `extract`: devuelve el input de la tool y una confianza (0–1), o null.
+ * - `auth`: "required" (sólo autenticado), "guest" (sólo sin autenticar) o "any".
+ * - `priority`: mayor número se evalúa primero.
+ *
+ * Para sumar un intent alcanza con agregarlo a `intents`. Para apagarlo en un
+ * deploy: DISABLED_INTENTS=nombre1,nombre2 (sin tocar código).
+ *
+ * `splitCommands` separa mensajes con varios pedidos ("registrá una nota: … y
+ * agendá un follow-up …") en cláusulas que se matchean por separado.
+ */
+
+import type { tools } from "@/lib/tools";
+import { getEnv } from "@/lib/env";
+
+// ---------------------------------- Tipos ----------------------------------
+
+export type IntentMatch = {
+  input: Record<string, unknown>;
+  confidence: number;
+};
+
+export type IntentDefinition = {
+  name: string;
+  tool: keyof typeof tools;
+  priority: number;
+  auth: "required" | "guest" | "any";
+  extract: (text: string) => IntentMatch | null;
+};
+
+// Envuelve un extractor que devuelve sólo input con una confianza fija.
+const withConfidence =
+  <T extends Record<string, unknown>>(
+    extractor: (text: string) => T | null,
+    confidence: number
+  ) =>
+  (text: string): IntentMatch | null => {
+    const input = extractor(text);
+    return input ? { input, confidence } : null;
+  };
+
+// ------------------------------- Extractores -------------------------------
+// Heurísticas con regex en español para reducir latencia y costo.
+
+// Normaliza extremos y espacios; deja caracteres relevantes para intent.
+export const stripPunct = (s: string) =>
+  s
+    .replace(/^[^A-Za-zÁÉÍÓÚÑáéíóúñ]+|[^A-Za-zÁÉÍÓÚÑáéíóúñ0-9'() :.,-]+$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// -------------------------- Intent: verify_passcode ------------------------
+// Extrae nombre y passcode de frases del tipo "Soy Ana, mi passcode es 123".
+function extractPasscodeIntent(
+  text: string
+): { name: string; passcode: string } | null {
+  const nameRe =
+    /\b(?:soy|me llamo|mi nombre es)\s+([A-Za-zÁÉÍÓÚÑáéíóúñ' -]{1,60}?)(?=[,.;:!?)]|\s|$)/i;
+  const passRe =
+    /\b(?:passcode|c(?:ó|o)digo|clave)\s*(?:es|:)?\s*([A-Za-z0-9-]{3,64})\b/i;
+  const nameMatch = nameRe.exec(text);
+  const passMatch = passRe.exec(text);
+  if (!nameMatch || !passMatch) return null;
+  const name = stripPunct(nameMatch[1]);
+  const passcode = passMatch[1].trim();
+  if (!name || !passcode) return null;
+  return { name, passcode };
+}
+
+// Variante parcial: sólo nombre o sólo passcode. El resto se pide por
+// slot-filling ("Soy Ana" → falta passcode). Corre antes que search_docs, así
+// que exige una señal explícita de login para no capturar preguntas de
+// invitados ("soy nuevo, ¿dónde está la guía…?", "la clave API de HubSpot"):
+// - passcode: "mi passcode/código/clave es X" o "passcode: X".
+// - nombre: el mensaje entero es la presentación ("Soy Ana", "Me llamo ana").
+function extractPartialPasscode(
+  text: string
+): { name?: string; passcode?: string } | null {
+  const nameMatch =
+    /^\s*(?:[Hh]ola[,!.]?\s*)?(?:(?:[Mm]e llamo|[Mm]i nombre es)\s+|[Ss]oy\s+(?=[A-ZÁÉÍÓÚÑ]))([A-Za-zÁÉÍÓÚÑáéíóúñ' -]{1,60}?)\s*[.!]?\s*$/.exec(
+      text
+    );
+  const passMatch =
+    /(?:\bmi\s+(?:passcode|c(?:ó|o)digo|clave)\s*(?:es|:)|\b(?:passcode|c(?:ó|o)digo|clave)\s*:)\s*([A-Za-z0-9-]{3,64})\b/i.exec(
+      text
+    );
+  const name = nameMatch ? stripPunct(nameMatch[1]) : "";
+  const passcode = passMatch?.[1].trim() ?? "";
+  if (!name && !passcode) return null;
+  return { ...(name ? { name } : {}), ...(passcode ? { passcode } : {}) };
+}
+
+// ---------------------------- Intent: record_note --------------------------
+// Detecta órdenes de registrar/guardar/anotar una nota y extrae el texto.
+function extractRecordNote(msg: string) {
+  // “Registrá/Guardá/Anotá … nota … <texto>” o “nota: …”
+  const re1 =
+    /(?:registr(?:a|á|ar)|guard(?:a|á|ar)|anot(?:a|á|ar)).*?\bnota\b[:\s,.-]*([\s\S]+)$/i;
+  const re2 = /\bnota\b\s*[:\-]\s*([\s\S]+)$/i;
+  const m = re1.exec(msg) ?? re2.exec(msg);
+  const text = (m?.[1] ?? "").toString();
+  const cleaned = stripPunct(text);
+  return cleaned.length >= 3 ? { text: cleaned } : null;
+}
+
+// ---------------------------- Intent: create_lead --------------------------
+// Extrae nombre, email y fuente opcional de frases naturales.
+export const emailRe = /<?([A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,})>?/i;
+function extractCreateLead(text: string) {
+  // “Creá un lead para Ana ... con email/correo/mail x@x.com desde <fuente>”
+  const m = text.match(
+    /lead\s+para\s+(.+?)\s+con\s+(?:correo|email|mail)\s+(.+?)(?:\s+(?:desde|de)\s+(.+?))?[.?!]*$/i
+  );
+  if (m) {
+    const name = stripPunct(m[1]);
+    const email = (m[2].match(emailRe)?.[1] ?? m[2]).trim();
+    const source = stripPunct(m[3] ?? "");
+    if (name && emailRe.test(email))
+      return { name, email, ...(source ? { source } : {}) };
+  }
+  // fallback: "<nombre> <email> [desde <source>]"
+  const e = text.match(emailRe)?.[1];
+  if (!e) return null;
+  const before = text
+    .slice(0, text.indexOf(e))
+    .replace(/.*para\s+/i, "")
+    .trim();
+  const src = text
+    .slice(text.indexOf(e) + e.length)
+    .match(/(?:desde|de)\s+(.+?)$/i)?.[1]
+    ?.trim();
+  const name = stripPunct(before);
+  return name && emailRe.test(e)
+    ? { name, email: e, ...(src ? { source: stripPunct(src) } : {}) }
+    : null;
+}
+
+// Variante parcial: "Creá un lead para Ana" sin email. Devuelve lo que haya
+// (posiblemente {}) para que el slot-filling pida el resto.
+function extractPartialCreateLead(text: string) {
+  const m =
+    /\b(?:cre(?:a|á|ar)|carg(?:a|á|ar)|registr(?:a|á|ar)|d(?:a|á|ar) de alta)\b.*?\blead\b(?:\s+(?:para|de|a nombre de)\s+(.+?))?[.?!]*$/i.exec(
+      text
+    );
+  if (!m) return null;
+  const name = stripPunct(m[1] ?? "");
+  const email = text.match(emailRe)?.[1];
+  return {
+    ...(name ? { name } : {}),
+    ...(email ? { email } : {}),
+  };
+}
+
+// ----------------------- Intent: complete_followup -------------------------
+// Ej.: “Completá el follow-up 3” o “Follow-up #5 completado”.
+function extractCompleteFollowUp(text: string) {
+  const m =
+    /(?:marc(a|á)|complet(a|á)|cerr(a|á)).*?follow[- ]?up\s*#?\s*(?<id>\d+)\b/i.exec(
+      text
+    ) ||
+    /follow[- ]?up\s*#?\s*(?<id>\d+)\b.*?(?:complet(a|á)|cerr(a|á))/i.exec(
+      text
+    );
+  const id = m?.groups?.id ? Number(m.groups.id) : NaN;
+  return Number.isFinite(id) ? { followUpId: id } : null;
+}
+
+// -------------------------- Intent: search_docs ----------------------------
+// Detecta preguntas o búsquedas explícitas sobre documentación.
+function extractSearchDocs(text: string): IntentMatch | null {
+  const t = text.toLowerCase();
+
+  const hasQuestionPunct = /[¿?]/.test(t);
+  const hasInterrogatives = /\b(cómo|qué|dónde|cuándo|por qué|para qué)\b/.test(
+    t
+  );
+
+  const hasDocsWords =
+    /\b(documentación|documentos|manual|guía|onboarding|prácticas)\b/.test(t);
+  const explicitSearch = /^\s*busc(a|á|ar)\b/.test(t);
+  const hasKnowledgeKeywords =
+    /\b(embedding|embeddings|vector|rag|modelo|stack|arquitectura|pipeline|contexto)\b/.test(
+      t
+    );
+
+  if (
+    (hasQuestionPunct || hasInterrogatives) &&
+    (hasDocsWords || explicitSearch || hasKnowledgeKeywords)
+  ) {
+    return { input: { question: stripPunct(text) }, confidence: 0.8 };
+  }
+  if (explicitSearch && (hasDocsWords || hasKnowledgeKeywords))
+    return { input: { question: stripPunct(text) }, confidence: 0.7 };
+  return null;
+}
+
+// ---------------------- Intent: schedule_followup (ES) ---------------------
+// Parser mínimo para fechas relativas y absolutas en español.
+export function parseDueAtSpanish(
+  msg: string
+): { when: Date; matched: string } | null {
+  const now = new Date();
+  const base = new Date(now);
+  base.setHours(0, 0, 0, 0);
+
+  // mañana / hoy / pasado mañana a las HH[:MM] [am|pm]
+  const rel =
+    /(pasado\s+ma[ñn]ana|ma[ñn]ana|hoy)\s*(?:a\s+las\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i.exec(
+      msg
+    );
+  if (rel) {
+    const word = rel[1].toLowerCase();
+    const hh = Number(rel[2]);
+    const mm = rel[3] ? Number(rel[3]) : 0;
+    const ap = rel[4]?.toLowerCase();
+    let d = new Date(base);
+    if (/pasado/.test(word)) d.setDate(d.getDate() + 2);
+    else if (/ma[ñn]ana/.test(word)) d.setDate(d.getDate() + 1);
+    let H = hh;
+    if (ap === "pm" && H < 12) H += 12;
+    if (ap === "am" && H === 12) H = 0;
+    d.setHours(H, mm, 0, 0);
+    return { when: d, matched: rel[0] };
+  }
+
+  // dd/mm a las HH[:MM]
+  const abs = /(\d{1,2})\/(\d{1,2}).*?a\s+las\s+(\d{1,2})(?::(\d{2}))?/i.exec(
+    msg
+  );
+  if (abs) {
+    const day = Number(abs[1]);
+    const mon = Number(abs[2]) - 1;
+    const hh = Number(abs[3]);
+    const mm = abs[4] ? Number(abs[4]) : 0;
+    const d = new Date(base);
+    d.setMonth(mon, day);
+    d.setHours(hh, mm, 0, 0);
+    return { when: d, matched: abs[0] };
+  }
+
+  return null;
+}
+
+// Extrae título y dueAt a partir de la frase natural.
+function extractScheduleFollowUp(text: string) {
+  const r = parseDueAtSpanish(text);
+  if (!r) return null;
+  const raw = stripPunct(text);
+  // Quita “agendá/programá … follow-up”, conectores y la parte temporal.
+  let title = raw
+    .replace(/agend(a|á|ar)\s+un?\s+follow[- ]?up/gi, "")
+    .replace(/program(a|á|ar)\s+un?\s+follow[- ]?up/gi, "")
+    .replace(
+      new RegExp(r.matched.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i"),
+      ""
+    )
+    .replace(/\b(para|con|sobre)\b/gi, "")
+    .trim();
+  if (!title || title.length < 3) title = "Follow-up";
+  return { title, dueAt: r.when };
+}
+
+// Variante parcial: "Agendá un follow-up" sin fecha; el título puede faltar.
+function extractPartialScheduleFollowUp(text: string) {
+  const m =
+    /\b(?:agend(?:a|á|ar)|program(?:a|á|ar))\s+un?\s+(?:follow[- ]?up|seguimiento)\b(?:\s+(?:para|con|sobre)\s+(.+))?/i.exec(
+      text
+    );
+  if (!m) return null;
+  const title = stripPunct(m[1] ?? "");
+  return title.length >= 3 ? { title } : {};
+}
+
+// -------------------------------- Listados ---------------------------------
+// "Mostrá/listá/ver … notas|leads|follow-ups" con límite numérico opcional.
+const listVerbRe = /(mostr|lista|listá|ver|consult)/;
+
+function extractLimit(text: string) {
+  const numberMatch = text.match(/\b(\d{1,2})\b/);
+  return numberMatch ? { limit: Number(numberMatch[1]) } : {};
+}
+
+function extractListNotes(text: string) {
+  const normalized = text.toLowerCase();
+  return /nota/.test(normalized) && listVerbRe.test(normalized)
+    ? extractLimit(text)
+    : null;
+}
+
+function extractListLeads(text: string) {
+  const normalized = text.toLowerCase();
+  return /lead/.test(normalized) && listVerbRe.test(normalized)
+    ? extractLimit(text)
+    : null;
+}
+
+function extractListFollowUps(text: string) {
+  const normalized = text.toLowerCase();
+  if (
+    !/(follow[- ]?up|seguimiento)/.test(normalized) ||
+    !listVerbRe.test(normalized)
+  )
+    return null;
+  const status = /\bpendient/.test(normalized)
+    ? "pending"
+    : /\bcompletad|completos?\b/.test(normalized)
+    ? "completed"
+    : undefined;
+  return { ...(status ? { status } : {}), ...extractLimit(text) };
+}
+
+// -------------------------------- Registro ---------------------------------
+
+export const intents: IntentDefinition[] = [
+  {
+    name: "verify_passcode",
+    tool: "verify_passcode",
+    priority: 100,
+    auth: "guest",
+    extract: withConfidence(extractPasscodeIntent, 0.95),
+  },
+  {
+    name: "verify_passcode_partial",
+    tool: "verify_passcode",
+    priority: 95,
+    auth: "guest",
+    extract: withConfidence(extractPartialPasscode, 0.6),
+  },
+  {
+    name: "complete_followup",
+    tool: "complete_followup",
+    priority: 90,
+    auth: "required",
+    extract: withConfidence(extractCompleteFollowUp, 0.9),
+  },
+  {
+    name: "schedule_followup",
+    tool: "schedule_followup",
+    priority: 80,
+    auth: "required",
+    extract: withConfidence(extractScheduleFollowUp, 0.85),
+  },
+  {
+    name: "create_lead",
+    tool: "create_lead",
+    priority: 70,
+    auth: "required",
+    extract: withConfidence(extractCreateLead, 0.9),
+  },
+  {
+    name: "record_note",
+    tool: "record_note",
+    priority: 60,
+    auth: "required",
+    extract: withConfidence(extractRecordNote, 0.85),
+  },
+  {
+    name: "list_notes",
+    tool: "list_notes",
+    priority: 50,
+    auth: "required",
+    extract: withConfidence(extractListNotes, 0.7),
+  },
+  {
+    name: "list_leads",
+    tool: "list_leads",
+    priority: 49,
+    auth: "required",
+    extract: withConfidence(extractListLeads, 0.7),
+  },
+  {
+    name: "list_followups",
+    tool: "list_followups",
+    priority: 48,
+    auth: "required",
+    extract: withConfidence(extractListFollowUps, 0.7),
+  },
+  {
+    name: "create_lead_partial",
+    tool: "create_lead",
+    priority: 40,
+    auth: "required",
+    extract: withConfidence(extractPartialCreateLead, 0.6),
+  },
+  {
+    name: "schedule_followup_partial",
+    tool: "schedule_followup",
+    priority: 39,
+    auth: "required",
+    extract: withConfidence(extractPartialScheduleFollowUp, 0.6),
+  },
+  {
+    name: "search_docs",
+    tool: "search_docs",
+    priority: 10,
+    auth: "any",
+    extract: extractSearchDocs,
+  },
+];
+
+// Nombres apagados por deploy (DISABLED_INTENTS, separados por coma).
+function disabledIntents(): Set<string> {
+  const names = getEnv().DISABLED_INTENTS.split(",");
+  return new Set(names.map((s) => s.trim()).filter(Boolean));
+}
+
+/**
+ * activeIntents(authenticated): intents habilitados para el estado de auth
+ * actual, ordenados por prioridad descendente.
+ */
+export function activeIntents(authenticated: boolean): IntentDefinition[] {
+  const disabled = disabledIntents();
+  return intents
+    .filter((intent) => !disabled.has(intent.name))
+    .filter((intent) =>
+      intent.auth === "any" ? true : (intent.auth === "required") === authenticated
+    )
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * matchIntent(text, authenticated): primer intent activo que matchea el texto,
+ * junto con su input y confianza.
+ */
+export function matchIntent(
+  text: string,
+  authenticated: boolean
+): { intent: IntentDefinition; match: IntentMatch } | null {
+  for (const intent of activeIntents(authenticated)) {
+    const match = intent.extract(text);
+    if (match) return { intent, match };
+  }
+  return null;
+}
+
+// ----------------------------- Multi-comando -------------------------------
+// Verbos imperativos que abren un pedido nuevo después de "y"/"e". El cierre
+// no usa \b porque en JS no reconoce letras acentuadas ("agendá").
+const commandVerbs =
+  "(?:registr|guard|anot|cre|carg|agend|program|complet|marc|cerr|mostr|list|busc)(?:ar|á|a)(?![A-Za-zÁÉÍÓÚÑáéíóúñ])";
+
+// Cortes explícitos: ";", saltos de línea o "y después/luego/también" + verbo.
+const hardSplitRe = new RegExp(
+  `\\s*[;\\n]+\\s*|\\s*,?\\s+(?:y|e)\\s+(?:después|luego|también)\\s+(?=${commandVerbs})`,
+  "i"
+);
+// Corte implícito: " y " + verbo de comando.
+const softSplitRe = new RegExp(`\\s*,?\\s+(?:y|e)\\s+(?=${commandVerbs})`, "gi");
+
+// Argumentos de texto libre: el cuerpo de una nota (record_note) y la fuente
+// de un lead (create_lead). Ahí "y busca presupuesto" es parte del texto.
+const freeTextRe =
+  /\bnota\b|\banot(?:ar|á|a)(?![A-Za-zÁÉÍÓÚÑáéíóúñ])|\blead\b[\s\S]*\bdesde\b/i;
+
+// Un pedido completo (todos los campos, confianza alta) justifica cortar el
+// texto libre; parciales, listados y búsquedas no.
+const isCompleteCommand = (text: string) =>
+  intents.some((intent) => (intent.extract(text)?.confidence ?? 0) >= 0.85);
+
+function splitSoft(segment: string): string[] {
+  const clauses: string[] = [];
+  let start = 0;
+  for (const m of segment.matchAll(softSplitRe)) {
+    const left = segment.slice(start, m.index);
+    const rest = segment.slice(m.index! + m[0].length);
+    if (freeTextRe.test(left) && !isCompleteCommand(rest)) continue;
+    clauses.push(left);
+    start = m.index! + m[0].length;
+  }
+  clauses.push(segment.slice(start));
+  return clauses;
+}
+
+/**
+ * splitCommands(text): separa el mensaje en cláusulas por ";", saltos de línea,
+ * "y después/luego/también" o " y " seguido de un verbo de comando.
+ * - Dentro de texto libre (nota, fuente de un lead) el " y " sólo corta si lo
+ *   que sigue es un pedido completo ("…: demo ok y agendá un follow-up para
+ *   mañana a las 10"); si no, queda en el texto ("…llamé y busca presupuesto").
+ * - Devuelve [text] si no hay cortes.
+ */
+export function splitCommands(text: string): string[] {
+  const clauses = text
+    .split(hardSplitRe)
+    .flatMap(splitSoft)
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+  return clauses.length ? clauses : [text];
+}
@@ -0,0 +1,101 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/llm-scripted.test.ts — Posición en el guion y elección de respuesta
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { locate, pickResponse, type Script } from "@/lib/llm-scripted";
+import type { ChatMessage } from "@/lib/openrouter";
+
+const plan = (final_response: string) => ({
+  plan: { action: "respond" as const, final_response },
+});
+
+const script: Script = {
+  turns: [
+    { match: "pendiente", responses: [plan("listo follow-ups"), plan("respondo")] },
+    { turn: 3, responses: [plan("tercer turno")] },
+    { responses: [plan("posicional")] },
+  ],
+  purposes: {
+    summary: { content: "resumen fijo" },
+    rewrite: [
+      { match: "Pregunta: (.*esa key.*)\\n", content: '{"query": "rotar API key"}' },
+      { match: "Pregunta: (.*)\\n", content: '{"query": "$1"}' },
+    ],
+  },
+};
+
+const user = (content: string): ChatMessage => ({ role: "user", content });
+
+describe("locate", () => {
+  it("cuenta turnos reales y rondas de tools desde el último", () => {
+    const messages: ChatMessage[] = [
+      user("hola"),
+      { role: "assistant", content: "¡Hola!" },
+      user("¿qué tengo pendiente?"),
+      {
+        role: "assistant",
+        content: "",
+        toolCalls: [{ id: "c1", name: "list_followups", arguments: "{}" }],
+      },
+      { role: "tool", toolCallId: "c1", content: "{}" },
+    ];
+    assert.deepEqual(locate(messages), {
+      turn: 2,
+      step: 1,
+      lastUser: "¿qué tengo pendiente?",
+    });
+  });
+
+  it("ignora los mensajes sintéticos de usuario del modo JSON", () => {
+    assert.deepEqual(
+      locate([
+        user("listá notas"),
+        user('TOOL_CALL list_notes: {"limit":5}'),
+        user("Paso 2 de 4. Seguí con el plan."),
+      ]),
+      { turn: 1, step: 1, lastUser: "listá notas" }
+    );
+  });
+});
+
+describe("pickResponse", () => {
+  const planning = (messages: ChatMessage[], turn?: number) =>
+    pickResponse(script, { system: "", messages, purpose: "planning", turn });
+
+  it("elige el turno por `match` y la ronda por paso", () => {
+    const messages: ChatMessage[] = [user("¿qué tengo pendiente?")];
+    assert.deepEqual(planning(messages), plan("listo follow-ups"));
+    messages.push(user("TOOL_CALL list_followups: {}"));
+    assert.deepEqual(planning(messages), plan("respondo"));
+  });
+
+  it("usa `turn` de los parámetros (turnos compactados) antes que la posición", () => {
+    assert.deepEqual(planning([user("otra cosa")], 3), plan("tercer turno"));
+  });
+
+  it("sin `turn` explícito cae a la posición en la lista", () => {
+    // Turno 3 sin match: la entrada con `turn: 3` gana sobre la posicional.
+    assert.deepEqual(planning([user("a"), user("b"), user("c")]), plan("tercer turno"));
+  });
+
+  it("propósitos: respuesta fija o primera entrada cuyo match acepta, con $1", () => {
+    const purpose = (purpose: "summary" | "rewrite", content: string) =>
+      pickResponse(script, { system: "", messages: [user(content)], purpose }).content;
+    assert.equal(purpose("summary", "lo que sea"), "resumen fijo");
+    assert.equal(purpose("rewrite", "Pregunta: ¿y esa key?\n"), '{"query": "rotar API key"}');
+    assert.equal(purpose("rewrite", "Pregunta: ¿qué es RAG?\n"), '{"query": "¿qué es RAG?"}');
+  });
+
+  it("falla con un mensaje claro si el guion no cubre la llamada", () => {
+    assert.throws(
+      () => pickResponse(script, { system: "", messages: [user("x")], purpose: "synthesis" }),
+      /scripted: sin respuesta para synthesis/
+    );
+    assert.throws(
+      () => planning([user("¿qué tengo pendiente?"), user("TOOL_CALL a: {}"), user("TOOL_CALL b: {}")]),
+      /scripted: sin respuesta para turno 1, paso 2/
+    );
+  });
+});
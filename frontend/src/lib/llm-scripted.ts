@@ -0,0 +1,221 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/llm-scripted.ts — Proveedor de chat determinista desde fixture
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type {
+  ChatCompletion,
+  ChatMessage,
+  ChatStreamEvent,
+  CompleteParams,
+} from "@/lib/openrouter";
+import type { ChatProvider } from "@/lib/llm";
+import { getEnv } from "@/lib/env";
+
+/**
+ * Fixture (LLM_SCRIPT_PATH, default fixtures/llm-script.json):
+ * - `turns[]`: respuestas del planificador por turno de conversación. Cada
+ *   turno se elige por `match` (regex sobre el último mensaje del usuario),
+ *   por `turn` (1 = primer mensaje) o, sin ninguno, por su posición. El número
+ *   de turno lo pasa el agente (`params.turn`) y cuenta también los turnos que
+ *   la memoria ya compactó, así que no se corre en conversaciones largas.
+ *   `responses[i]` responde la i-ésima llamada del turno (tras i rondas de tools).
+ * - `purposes`: respuesta para síntesis RAG, resumen de memoria, rerank y
+ *   reescritura de consultas. Puede ser una respuesta fija o una lista de
+ *   entradas con `match` (regex sobre el mensaje de la llamada); en `content`,
+ *   `$1`…`$9` se reemplazan por los grupos capturados.
+ *
+ * Una respuesta puede ser `content`, `toolCalls` o un `plan` con el contrato
+ * de agent.ts; el plan se adapta solo a modo nativo (tool_calls) o JSON.
+ */
+const ResponseSchema = z.object({
+  content: z.string().optional(),
+  toolCalls: z
+    .array(z.object({ name: z.string(), arguments: z.unknown().optional() }))
+    .optional(),
+  plan: z
+    .object({
+      action: z.enum(["tool", "respond"]),
+      thought: z.string().optional(),
+      tool: z
+        .object({ name: z.string(), input: z.unknown().optional() })
+        .nullable()
+        .optional(),
+      final_response: z.string().nullable().optional(),
+    })
+    .optional(),
+});
+
+const PurposeSchema = z.union([
+  ResponseSchema,
+  z.array(ResponseSchema.extend({ match: z.string().optional() })).min(1),
+]);
+
+const ScriptSchema = z.object({
+  turns: z
+    .array(
+      z.object({
+        turn: z.number().int().positive().optional(),
+        match: z.string().optional(),
+        responses: z.array(ResponseSchema).min(1),
+      })
+    )
+    .default([]),
+  purposes: z
+    .object({
+      synthesis: PurposeSchema.optional(),
+      summary: PurposeSchema.optional(),
+      rerank: PurposeSchema.optional(),
+      rewrite: PurposeSchema.optional(),
+    })
+    .default({}),
+});
+
+type ScriptedResponse = z.infer<typeof ResponseSchema>;
+type ScriptedPurpose = z.infer<typeof PurposeSchema>;
+export type Script = z.infer<typeof ScriptSchema>;
+
+const MODEL = "scripted";
+
+// Se relee en cada llamada: el fixture se puede editar sin reiniciar `next dev`.
+function loadScript(): Script {
+  const file = path.resolve(process.cwd(), getEnv().LLM_SCRIPT_PATH);
+  let raw: string;
+  try {
+    raw = readFileSync(file, "utf8");
+  } catch (e) {
+    throw new Error(`scripted: no pude leer ${file}: ${String(e)}`);
+  }
+  return ScriptSchema.parse(JSON.parse(raw));
+}
+
+// ----------------------------- Posición en guion ---------------------------
+// Mensajes de usuario que no escribió el usuario: eco de tools en modo JSON y
+// recordatorio "Paso N de M" del loop del agente.
+const isSyntheticUser = (m: ChatMessage) =>
+  m.role === "user" && /^(?:TOOL_CALL |Paso \d+ de \d+\.)/.test(m.content);
+
+/**
+ * locate(messages): turno = cantidad de mensajes reales del usuario; paso =
+ * rondas de tools (tool_calls nativos o ecos TOOL_CALL) desde el último.
+ */
+export function locate(messages: ChatMessage[]) {
+  let turn = 0;
+  let step = 0;
+  let lastUser = "";
+  for (const m of messages) {
+    if (m.role === "user" && !isSyntheticUser(m)) {
+      turn++;
+      step = 0;
+      lastUser = m.content;
+    } else if (m.role === "assistant" && m.toolCalls?.length) {
+      step++;
+    } else if (m.role === "user" && m.content.startsWith("TOOL_CALL ")) {
+      step++;
+    }
+  }
+  return { turn, step, lastUser };
+}
+
+// Primera entrada del propósito cuyo `match` acepta el último mensaje.
+function pickPurpose(
+  purpose: ScriptedPurpose,
+  messages: ChatMessage[]
+): ScriptedResponse | null {
+  const input = messages.filter((m) => m.role === "user").at(-1)?.content ?? "";
+  const entries: (ScriptedResponse & { match?: string })[] = Array.isArray(purpose)
+    ? purpose
+    : [purpose];
+  for (const entry of entries) {
+    const groups = entry.match ? new RegExp(entry.match, "i").exec(input) : [input];
+    if (!groups) continue;
+    const content = entry.content?.replace(/\$(\d)/g, (_, n) => groups[Number(n)] ?? "");
+    return { ...entry, content };
+  }
+  return null;
+}
+
+export function pickResponse(script: Script, params: CompleteParams): ScriptedResponse {
+  if (
+    params.purpose === "synthesis" ||
+    params.purpose === "summary" ||
+    params.purpose === "rerank" ||
+    params.purpose === "rewrite"
+  ) {
+    const entries = script.purposes[params.purpose];
+    const fixed = entries && pickPurpose(entries, params.messages);
+    if (!fixed) throw new Error(`scripted: sin respuesta para ${params.purpose}`);
+    return fixed;
+  }
+
+  const located = locate(params.messages);
+  const { step, lastUser } = located;
+  const turn = params.turn ?? located.turn;
+  const entry =
+    script.turns.find((t) => t.match && new RegExp(t.match, "i").test(lastUser)) ??
+    script.turns.find((t, i) => (t.turn ?? (t.match ? -1 : i + 1)) === turn);
+  const response = entry?.responses[step];
+  if (!response)
+    throw new Error(`scripted: sin respuesta para turno ${turn}, paso ${step}`);
+  return response;
+}
+
+// Adapta la respuesta del guion al modo de la llamada (con o sin tools).
+function toCompletion(
+  response: ScriptedResponse,
+  params: CompleteParams
+): ChatCompletion {
+  const native = Boolean(params.tools?.length);
+  const { plan } = response;
+
+  if (plan && native) {
+    if (plan.action === "tool" && plan.tool) {
+      return {
+        content: plan.thought ?? "",
+        toolCalls: [
+          {
+            id: "scripted_0",
+            name: plan.tool.name,
+            arguments: JSON.stringify(plan.tool.input ?? {}),
+          },
+        ],
+        model: MODEL,
+      };
+    }
+    return { content: plan.final_response ?? "", toolCalls: [], model: MODEL };
+  }
+  if (plan) return { content: JSON.stringify(plan), toolCalls: [], model: MODEL };
+
+  return {
+    content: response.content ?? "",
+    toolCalls: (response.toolCalls ?? []).map((call, i) => ({
+      id: `scripted_${i}`,
+      name: call.name,
+      arguments:
+        typeof call.arguments === "string"
+          ? call.arguments
+          : JSON.stringify(call.arguments ?? {}),
+    })),
+    model: MODEL,
+  };
+}
+
+/**
+ * scriptedProvider: respuestas canónicas por turno, sin red ni API key.
+ * - En streaming emite el contenido palabra por palabra y cierra con `done`.
+ */
+export const scriptedProvider: ChatProvider = {
+  name: MODEL,
+  async complete(params) {
+    return toCompletion(pickResponse(loadScript(), params), params);
+  },
+  async *stream(params): AsyncGenerator<ChatStreamEvent> {
+    const completion = await this.complete(params);
+    for (const word of completion.content.match(/\S+\s*/g) ?? []) {
+      yield { type: "delta", value: word };
+    }
+    yield { type: "done", completion };
+  },
+};
@@ -0,0 +1,65 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/llm.ts — Proveedor de chat intercambiable (OpenRouter / guion)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import {
+  openrouterChatStream,
+  openrouterComplete,
+} from "@/lib/openrouter";
+import type {
+  ChatCompletion,
+  ChatParams,
+  ChatStreamEvent,
+  CompleteParams,
+} from "@/lib/openrouter";
+import { getEnv } from "@/lib/env";
+import { scriptedProvider } from "@/lib/llm-scripted";
+
+/**
+ * ChatProvider: backend de chat que consumen agent.ts, rag-answer.ts y memory.ts.
+ * - `complete` devuelve la completion entera; `stream` emite deltas y cierra
+ *   con { type: 'done' } igual que openrouterChatStream.
+ */
+export interface ChatProvider {
+  name: string;
+  complete(params: CompleteParams): Promise<ChatCompletion>;
+  stream(params: CompleteParams): AsyncGenerator<ChatStreamEvent>;
+}
+
+const openrouterProvider: ChatProvider = {
+  name: "openrouter",
+  complete: openrouterComplete,
+  stream: openrouterChatStream,
+};
+
+const providers: Record<string, ChatProvider> = {
+  openrouter: openrouterProvider,
+  scripted: scriptedProvider,
+};
+
+/**
+ * getChatProvider(): proveedor elegido por LLM_PROVIDER (default "openrouter").
+ * - "scripted" responde desde un fixture (LLM_SCRIPT_PATH), sin red ni API key.
+ */
+export function getChatProvider(): ChatProvider {
+  const name = getEnv().LLM_PROVIDER;
+  const provider = providers[name];
+  if (!provider) throw new Error(`LLM_PROVIDER desconocido: ${name}`);
+  return provider;
+}
+
+export const chatComplete = (params: CompleteParams) =>
+  getChatProvider().complete(params);
+
+export const chatStream = (params: CompleteParams) =>
+  getChatProvider().stream(params);
+
+/**
+ * chatText(params): variante de sólo texto sobre chatComplete.
+ * - Lanza error si el modelo no devolvió contenido.
+ */
+export async function chatText(params: ChatParams): Promise<string> {
+  const { content } = await chatComplete(params);
+  if (!content) throw new Error(`${getChatProvider().name}: respuesta vacía`);
+  return content;
+}
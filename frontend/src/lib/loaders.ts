@@ -0,0 +1,208 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/loaders.ts — Extracción de texto por tipo de archivo (ingesta)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { createRequire } from "module";
+import path from "path";
+import { markdownHeadings, splitFrontMatter } from "@/lib/chunker";
+
+/**
+ * LoadedSection: tramo de texto (Markdown o plano) con su ubicación.
+ * - `page` sólo existe en formatos paginados (PDF), 1-based.
+ * - Las secciones por encabezado las arma el chunker (breadcrumb).
+ */
+export interface LoadedSection {
+  text: string;
+  page?: number;
+}
+
+/**
+ * LoadedDocument: resultado de un loader, listo para fragmentar.
+ * - `headings` en orden de aparición; `pages` = total de páginas (PDF).
+ * - `frontMatter`: bloque YAML inicial de un Markdown (collection, tags, team,
+ *   product, language, audience…), ya quitado del texto.
+ */
+export interface LoadedDocument {
+  format: string;
+  title: string | null;
+  headings: string[];
+  pages?: number;
+  frontMatter?: Record<string, unknown>;
+  sections: LoadedSection[];
+}
+
+/**
+ * DocumentLoader: extractor para un grupo de extensiones.
+ * - Corre offline: no hace requests ni usa binarios externos.
+ */
+export interface DocumentLoader {
+  format: string;
+  extensions: string[];
+  load(data: Buffer, filePath: string): Promise<LoadedDocument>;
+}
+
+// --------------------------------- Markdown ---------------------------------
+const markdownLoader: DocumentLoader = {
+  format: "markdown",
+  extensions: [".md", ".markdown", ".txt"],
+  async load(data, filePath) {
+    const raw = data.toString("utf8");
+    // .txt no tiene estructura: sin título por encabezado ni front-matter.
+    if (path.extname(filePath).toLowerCase() === ".txt") {
+      const title = raw.split("\n").find((l) => l.trim())?.trim() ?? null;
+      return { format: "text", title, headings: [], sections: [{ text: raw }] };
+    }
+    const { frontMatter, body: text } = splitFrontMatter(raw);
+    const headings = markdownHeadings(text);
+    const h1 = /^#\s+(.+?)\s*#*\s*$/m.exec(text)?.[1] ?? null;
+    const declared =
+      typeof frontMatter?.title === "string" ? frontMatter.title.trim() : "";
+    return {
+      format: "markdown",
+      title: declared || (h1 ?? headings[0] ?? null),
+      headings,
+      frontMatter,
+      sections: [{ text }],
+    };
+  },
+};
+
+// ----------------------------------- HTML -----------------------------------
+const blockTags = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "aside",
+  "ul", "ol", "li", "table", "tr", "blockquote", "pre", "figure", "dl", "dt", "dd",
+]);
+const skippedTags = new Set(["script", "style", "noscript", "template", "svg", "nav"]);
+
+/**
+ * htmlToMarkdownish(html): aplana el DOM a texto con encabezados "#" y
+ * párrafos separados por línea en blanco (lo que espera el chunker).
+ */
+async function htmlToMarkdownish(html: string) {
+  const { parse, NodeType } = await import("node-html-parser");
+  const root = parse(html, { comment: false });
+  const out: string[] = [];
+
+  type Node = ReturnType<typeof parse>;
+  const walk = (node: Node) => {
+    for (const child of node.childNodes) {
+      if (child.nodeType === NodeType.TEXT_NODE) {
+        out.push(child.text.replace(/\s+/g, " "));
+        continue;
+      }
+      if (child.nodeType !== NodeType.ELEMENT_NODE) continue;
+      const element = child as Node;
+      const tag = element.rawTagName?.toLowerCase() ?? "";
+      if (skippedTags.has(tag)) continue;
+      const level = /^h([1-6])$/.exec(tag)?.[1];
+      if (level) {
+        const title = element.text.replace(/\s+/g, " ").trim();
+        if (title) out.push(`\n\n${"#".repeat(Number(level))} ${title}\n\n`);
+      } else if (tag === "br") {
+        out.push("\n");
+      } else if (blockTags.has(tag)) {
+        out.push("\n\n");
+        walk(element);
+        out.push("\n\n");
+      } else {
+        walk(element);
+      }
+    }
+  };
+
+  const title = root.querySelector("title")?.text.trim() || null;
+  walk(root.querySelector("body") ?? root);
+  const text = out
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { title, text };
+}
+
+const htmlLoader: DocumentLoader = {
+  format: "html",
+  extensions: [".html", ".htm"],
+  async load(data) {
+    const { title, text } = await htmlToMarkdownish(data.toString("utf8"));
+    const headings = markdownHeadings(text);
+    return {
+      format: "html",
+      title: title ?? headings[0] ?? null,
+      headings,
+      sections: [{ text }],
+    };
+  },
+};
+
+// ----------------------------------- DOCX -----------------------------------
+// mammoth mapea estilos de Word (Título 1, 2…) a <h1>, <h2>…: se reusa el loader HTML.
+const docxLoader: DocumentLoader = {
+  format: "docx",
+  extensions: [".docx"],
+  async load(data) {
+    const mammoth = await import("mammoth");
+    const { value } = await mammoth.convertToHtml({ buffer: data });
+    const { text } = await htmlToMarkdownish(value);
+    const headings = markdownHeadings(text);
+    return { format: "docx", title: headings[0] ?? null, headings, sections: [{ text }] };
+  },
+};
+
+// ----------------------------------- PDF ------------------------------------
+const pdfLoader: DocumentLoader = {
+  format: "pdf",
+  extensions: [".pdf"],
+  async load(data) {
+    // Build "legacy": la que soporta Node sin DOM ni canvas.
+    const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+    // Fuentes estándar desde el paquete instalado (sin CDN).
+    const pkg = createRequire(import.meta.url).resolve("pdfjs-dist/package.json");
+    const pdf = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      standardFontDataUrl: path.join(path.dirname(pkg), "standard_fonts") + path.sep,
+      disableFontFace: true,
+      isEvalSupported: false,
+    }).promise;
+
+    try {
+      const sections: LoadedSection[] = [];
+      for (let page = 1; page <= pdf.numPages; page++) {
+        const content = await (await pdf.getPage(page)).getTextContent();
+        const text = content.items
+          .map((item) =>
+            "str" in item ? `${item.str}${item.hasEOL ? "\n" : ""}` : ""
+          )
+          .join("")
+          .trim();
+        if (text) sections.push({ text, page });
+      }
+
+      const info = (await pdf.getMetadata().catch(() => null))?.info as
+        | { Title?: string }
+        | undefined;
+      const firstLine = sections[0]?.text.split("\n")[0]?.trim() || null;
+      return {
+        format: "pdf",
+        title: info?.Title?.trim() || firstLine,
+        headings: [],
+        pages: pdf.numPages,
+        sections,
+      };
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
+
+// --------------------------------- Registro ---------------------------------
+const loaders: DocumentLoader[] = [markdownLoader, htmlLoader, docxLoader, pdfLoader];
+
+/**
+ * getLoader(filePath): loader según la extensión del archivo (o null si no hay).
+ * - Para sumar un formato, agregar un DocumentLoader a `loaders`.
+ */
+export function getLoader(filePath: string): DocumentLoader | null {
+  const ext = path.extname(filePath).toLowerCase();
+  return loaders.find((l) => l.extensions.includes(ext)) ?? null;
+}
@@ -0,0 +1,215 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/memory.ts — Memoria resumida de conversaciones largas
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { chatText } from "@/lib/llm";
+import { toolResult } from "@/lib/tools";
+import type { AgentSession } from "@/lib/session-store";
+import type { AgentMessage, AgentTextMessage } from "@/lib/types";
+
+/**
+ * MemoryFacts: datos clave que se extraen de forma determinista del historial
+ * (sin LLM) para que sobrevivan a la compactación.
+ */
+export interface MemoryFacts {
+  activeLead: { id?: number; name: string; email?: string } | null;
+  recentNoteIds: number[];
+  preferences: string[];
+}
+
+/**
+ * SessionMemory: resumen acumulado de los turnos compactados.
+ * - `summarizedCount` cuenta los mensajes ya condensados (para trazas/UI).
+ * - `summarizedTurns` cuenta los mensajes de usuario condensados, para que
+ *   conversationTurn() siga numerando igual después de compactar.
+ */
+export interface SessionMemory {
+  summary: string;
+  facts: MemoryFacts;
+  summarizedCount: number;
+  summarizedTurns?: number;
+  updatedAt: string;
+}
+
+// Umbral de compactación y cantidad de mensajes recientes que quedan crudos.
+const COMPACT_THRESHOLD = 40;
+const KEEP_RECENT = 16;
+const MAX_NOTE_IDS = 5;
+const MAX_PREFERENCES = 5;
+const MAX_SUMMARY_LINES = 20;
+
+const SUMMARY_PROMPT = `Resumís conversaciones entre un usuario y Laburen Agent (CRM comercial).
+Reglas:
+1) Integrá el resumen previo con los mensajes nuevos en un único resumen actualizado.
+2) Conservá decisiones, pedidos pendientes, nombres, IDs y fechas mencionados.
+3) Omití saludos y el detalle crudo de las tools; quedate con su efecto (lead creado, nota guardada, etc.).
+4) Español neutro, máximo 8 viñetas.`;
+
+export const emptyFacts = (): MemoryFacts => ({
+  activeLead: null,
+  recentNoteIds: [],
+  preferences: [],
+});
+
+// ---------------------------- Hechos deterministas ---------------------------
+const preferenceRe =
+  /\b(?:prefiero|preferiría|quiero que siempre|siempre (?:respond|contest)\w*|no me (?:mandes|muestres))\b[^.!?\n]*/i;
+
+/**
+ * updateFacts(prev, messages): aplica los mensajes (en orden) sobre los hechos
+ * previos. Último lead creado = lead activo; notas recientes sin las borradas.
+ */
+export function updateFacts(
+  prev: MemoryFacts,
+  messages: AgentMessage[]
+): MemoryFacts {
+  const facts: MemoryFacts = {
+    activeLead: prev.activeLead,
+    recentNoteIds: [...prev.recentNoteIds],
+    preferences: [...prev.preferences],
+  };
+
+  for (const message of messages) {
+    if (message.role === "user") {
+      const pref = preferenceRe.exec(message.content)?.[0].trim();
+      if (pref && !facts.preferences.includes(pref)) facts.preferences.push(pref);
+      continue;
+    }
+
+    if (message.role !== "tool" || message.status !== "success") continue;
+    if (message.name === "create_lead") {
+      const { lead } = toolResult("create_lead", message.result);
+      if (lead) facts.activeLead = { id: lead.id, name: lead.name, email: lead.email };
+    } else if (message.name === "record_note") {
+      const { noteId } = toolResult("record_note", message.result);
+      if (noteId) facts.recentNoteIds.push(noteId);
+    } else if (message.name === "delete_note") {
+      const { deleted } = toolResult("delete_note", message.result);
+      if (deleted)
+        facts.recentNoteIds = facts.recentNoteIds.filter((n) => n !== deleted.id);
+    }
+  }
+
+  facts.recentNoteIds = facts.recentNoteIds.slice(-MAX_NOTE_IDS);
+  facts.preferences = facts.preferences.slice(-MAX_PREFERENCES);
+  return facts;
+}
+
+// ------------------------------- Resumen LLM --------------------------------
+// Transcripción compacta de los mensajes a resumir.
+function formatTranscript(messages: AgentMessage[]) {
+  return messages
+    .map((m) => {
+      const raw =
+        m.role === "tool"
+          ? `${m.name} (${m.status}) ${JSON.stringify(m.result ?? m.error ?? null)}`
+          : m.content;
+      const text = raw.replace(/\s+/g, " ").trim();
+      const clipped = text.length > 400 ? `${text.slice(0, 397)}…` : text;
+      const who =
+        m.role === "user" ? "Usuario" : m.role === "tool" ? "Tool" : "Agente";
+      return `${who}: ${clipped}`;
+    })
+    .join("\n");
+}
+
+// Resumen determinista cuando el LLM no está disponible: últimos pedidos del
+// usuario (acotado para que no crezca en cada compactación).
+function extractiveSummary(previous: string, messages: AgentMessage[]) {
+  const asks = messages
+    .filter((m): m is AgentTextMessage => m.role === "user")
+    .map((m) => {
+      const text = m.content.replace(/\s+/g, " ").trim();
+      return `• ${text.length > 120 ? `${text.slice(0, 117)}…` : text}`;
+    });
+  return [...previous.split("\n"), ...asks]
+    .filter(Boolean)
+    .slice(-MAX_SUMMARY_LINES)
+    .join("\n");
+}
+
+async function summarize(previous: string, messages: AgentMessage[]) {
+  try {
+    return await chatText({
+      system: SUMMARY_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: `Resumen previo:\n${previous || "(vacío)"}\n\nMensajes nuevos:\n${formatTranscript(
+            messages
+          )}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 400,
+      purpose: "summary",
+    });
+  } catch (err) {
+    console.warn("[memory] resumen LLM falló, uso fallback extractivo", err);
+    return extractiveSummary(previous, messages);
+  }
+}
+
+/**
+ * compactHistory(session): si el historial supera el umbral, condensa los
+ * mensajes viejos en session.memory y deja sólo los recientes.
+ * - Devuelve la cantidad de mensajes compactados (0 si no hizo nada).
+ * - No persiste: el llamador decide cuándo guardar la sesión.
+ */
+export async function compactHistory(session: AgentSession): Promise<number> {
+  if (session.history.length <= COMPACT_THRESHOLD) return 0;
+
+  // El corte arranca en un mensaje de usuario: nunca deja tools huérfanas.
+  let cut = session.history.length - KEEP_RECENT;
+  while (cut < session.history.length && session.history[cut].role !== "user")
+    cut++;
+  if (cut >= session.history.length) return 0;
+
+  const old = session.history.slice(0, cut);
+  const prev = session.memory;
+  const summary = await summarize(prev?.summary ?? "", old);
+
+  session.memory = {
+    summary,
+    facts: updateFacts(prev?.facts ?? emptyFacts(), old),
+    summarizedCount: (prev?.summarizedCount ?? 0) + old.length,
+    summarizedTurns:
+      (prev?.summarizedTurns ?? 0) + old.filter((m) => m.role === "user").length,
+    updatedAt: new Date().toISOString(),
+  };
+  session.history = session.history.slice(cut);
+  return old.length;
+}
+
+/**
+ * conversationTurn(session): número del turno actual (1 = primer mensaje del
+ * usuario), contando los mensajes ya compactados en memoria.
+ */
+export function conversationTurn(session: AgentSession): number {
+  const recent = session.history.filter((m) => m.role === "user").length;
+  return (session.memory?.summarizedTurns ?? 0) + recent;
+}
+
+/**
+ * memoryContext(session): bloque para el system prompt con resumen y hechos.
+ * - Los hechos se recalculan con el historial reciente (sin persistir).
+ */
+export function memoryContext(session: AgentSession): string {
+  const memory = session.memory;
+  const facts = updateFacts(memory?.facts ?? emptyFacts(), session.history);
+  const lines: string[] = [];
+
+  if (memory?.summary) lines.push(`Resumen de la conversación previa:\n${memory.summary}`);
+  if (facts.activeLead) {
+    const { id, name, email } = facts.activeLead;
+    lines.push(
+      `Lead activo: ${name}${email ? ` <${email}>` : ""}${id ? ` (ID ${id})` : ""}.`
+    );
+  }
+  if (facts.recentNoteIds.length)
+    lines.push(`Notas recientes: ${facts.recentNoteIds.map((id) => `#${id}`).join(", ")}.`);
+  if (facts.preferences.length)
+    lines.push(`Preferencias del usuario: ${facts.preferences.join("; ")}.`);
+
+  return lines.length ? `MEMORIA:\n${lines.join("\n")}` : "";
+}
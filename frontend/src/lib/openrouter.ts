@@ -2,75 +2,397 @@
 // File: frontend/src/lib/openrouter.ts — Wrapper de chat para OpenRouter
 // ──────────────────────────────────────────────────────────────────────────────
 
-type ORMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+import { getEnv } from '@/lib/env';
+import type { JsonSchema } from '@/lib/tool-schema';
+import { delay } from '@/lib/utils';
+
+
+/** Definición OpenAI-style de una tool para function calling. */
+export type ChatToolDefinition = {
+  type: 'function';
+  function: { name: string; description: string; parameters: JsonSchema };
+};
+
+/** Llamada a tool devuelta por el modelo; `arguments` llega como JSON en texto. */
+export type ChatToolCall = { id: string; name: string; arguments: string };
+
+/**
+ * Resultado completo de una completion: texto y/o llamadas a tools, más el
+ * modelo de la cadena que efectivamente respondió.
+ */
+export type ChatCompletion = { content: string; toolCalls: ChatToolCall[]; model: string };
+
+/** Propósito de la llamada: elige el modelo primario de la cadena. */
+export type LlmPurpose = 'planning' | 'synthesis' | 'summary' | 'rerank' | 'rewrite';
 
 /**
- * openrouterChat(params): llama a OpenRouter /chat/completions y devuelve content string.
- * - Exige OPENROUTER_API_KEY.
- * - Usa modelo configurable por env, con temperatura y max_tokens.
- * - Envía header HTTP-Referer y X-Title según guía de OpenRouter.
- * - Timebox a 60s con AbortController. Valida status y contenido no vacío.
+ * Mensaje de conversación para el proveedor. El asistente puede traer
+ * `toolCalls`; cada una se responde con un mensaje `tool` de igual id.
  */
-export async function openrouterChat(params: {
+export type ChatMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ChatToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export type ChatParams = {
   system: string;
-  messages: { role: 'user' | 'assistant'; content: string }[];
+  messages: ChatMessage[];
   temperature?: number;
   maxTokens?: number;
-}): Promise<string> {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) throw new Error('OPENROUTER_API_KEY ausente');
+  purpose?: LlmPurpose;
+  turn?: number; // turno de la conversación (1 = primero, incluye los compactados); lo usa el proveedor scripted
+};
+
+/** Evento de streaming: delta de texto o cierre con la completion acumulada. */
+export type ChatStreamEvent =
+  | { type: 'delta'; value: string }
+  | { type: 'done'; completion: ChatCompletion };
+
+export type CompleteParams = ChatParams & { tools?: ChatToolDefinition[] };
+
+// Traduce ChatMessage al formato OpenAI (tool_calls / tool_call_id).
+function toProviderMessage(m: ChatMessage) {
+  if (m.role === 'tool') return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+  if (m.role === 'assistant' && m.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: m.content || null,
+      tool_calls: m.toolCalls.map((c) => ({
+        id: c.id,
+        type: 'function',
+        function: { name: c.name, arguments: c.arguments },
+      })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+// ------------------------------ Cadena de modelos ---------------------------
+// Cada entrada es "proveedor/modelo" de OpenRouter o "local:<modelo>" para un
+// servidor OpenAI-compatible propio (llama.cpp, vLLM, Ollama /v1).
+
+// Error HTTP/transporte con status (null = red, timeout o configuración).
+class ChatHttpError extends Error {
+  constructor(message: string, readonly status: number | null, readonly retryable = false) {
+    super(message);
+  }
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Status con los que el proveedor rechaza el request en sí (p.ej. `tools` en un
+// modelo sin function calling: OpenRouter responde 404, servidores locales 400/422).
+const REJECTED_STATUSES = new Set([400, 404, 422]);
+
+/**
+ * ChatChainError: ningún modelo de la cadena respondió.
+ * - `statuses`: status HTTP del último intento de cada modelo (null = red,
+ *   timeout o configuración).
+ * - `requestRejected`: todos los modelos rechazaron el request (4xx de
+ *   REJECTED_STATUSES); el agente lo usa para degradar de tools nativas a JSON.
+ */
+export class ChatChainError extends Error {
+  constructor(message: string, readonly statuses: (number | null)[]) {
+    super(message);
+  }
+
+  get requestRejected() {
+    return (
+      this.statuses.length > 0 &&
+      this.statuses.every((s) => s !== null && REJECTED_STATUSES.has(s))
+    );
+  }
+}
+
+type ChatEndpoint = {
+  model: string; // etiqueta para trazas (incluye "local:" si aplica)
+  apiModel: string; // nombre que viaja en el body
+  url: string;
+  headers: Record<string, string>;
+};
+
+const PURPOSE_ENV = {
+  planning: 'LLM_MODEL_PLANNING',
+  synthesis: 'LLM_MODEL_SYNTHESIS',
+  summary: 'LLM_MODEL_SUMMARY',
+  rerank: 'LLM_MODEL_RERANK',
+  rewrite: 'LLM_MODEL_REWRITE',
+} as const satisfies Record<LlmPurpose, string>;
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+/**
+ * resolveModelChain(purpose): modelo del propósito (o OPENROUTER_MODEL) seguido
+ * de LLM_FALLBACK_MODELS, sin duplicados.
+ */
+export function resolveModelChain(purpose?: LlmPurpose): string[] {
+  const env = getEnv();
+  const primary = (purpose && env[PURPOSE_ENV[purpose]]) || env.OPENROUTER_MODEL;
+  return Array.from(new Set([primary, ...splitList(env.LLM_FALLBACK_MODELS)]));
+}
+
+function resolveEndpoint(model: string): ChatEndpoint {
+  const env = getEnv();
+  if (model.startsWith('local:')) {
+    const base = env.LLM_LOCAL_BASE_URL;
+    if (!base) throw new ChatHttpError(`${model}: LLM_LOCAL_BASE_URL ausente`, null);
+    const key = env.LLM_LOCAL_API_KEY;
+    return {
+      model,
+      apiModel: model.slice('local:'.length),
+      url: `${base.replace(/\/$/, '')}/chat/completions`,
+      headers: key ? { Authorization: `Bearer ${key}` } : {},
+    };
+  }
 
-  const model = process.env.OPENROUTER_MODEL || 'anthropic/claude-3.5-haiku';
+  const apiKey = env.OPENROUTER_API_KEY;
+  if (!apiKey) throw new ChatHttpError('OPENROUTER_API_KEY ausente', null);
   const referer =
-    (process.env.NEXT_PUBLIC_BACKEND_URL && process.env.NEXT_PUBLIC_BACKEND_URL.replace(/\/$/, '')) ||
+    env.NEXT_PUBLIC_BACKEND_URL?.replace(/\/$/, '') ||
     'https://app.jereprograma.com';
+  return {
+    model,
+    apiModel: model,
+    url: 'https://openrouter.ai/api/v1/chat/completions',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'HTTP-Referer': referer,
+      'X-Title': 'Laburen AI Agent',
+    },
+  };
+}
 
+/**
+ * postChatCompletion(params, stream, ctrl, endpoint): un intento de POST.
+ * - Si recibe `tools`, las envía en formato OpenAI (tool_choice auto).
+ * - Timebox configurable (LLM_TIMEOUT_MS, 60s por defecto) hasta recibir headers.
+ * - 429/5xx y fallas de red quedan marcadas como reintentables.
+ */
+async function postChatCompletion(
+  params: CompleteParams,
+  stream: boolean,
+  ctrl: AbortController,
+  endpoint: ChatEndpoint
+): Promise<Response> {
   const body = {
-    model,
+    model: endpoint.apiModel,
     messages: [
       { role: 'system', content: params.system },
-      ...params.messages.map<ORMessage>((m) => ({ role: m.role, content: m.content })),
+      ...params.messages.map(toProviderMessage),
     ],
     temperature: params.temperature ?? 0.2,
     max_tokens: params.maxTokens ?? 1024,
+    ...(params.tools?.length ? { tools: params.tools, tool_choice: 'auto' } : {}),
+    ...(stream ? { stream: true } : {}),
   };
 
-  const ctrl = new AbortController();
-  const t = setTimeout(() => ctrl.abort(), 60_000);
+  const t = setTimeout(() => ctrl.abort(), getEnv().LLM_TIMEOUT_MS);
 
   let res: Response;
   try {
-    res = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    res = await fetch(endpoint.url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'HTTP-Referer': referer,
-        'X-Title': 'Laburen AI Agent',
-        Accept: 'application/json',
+        ...endpoint.headers,
+        Accept: stream ? 'text/event-stream' : 'application/json',
       },
       body: JSON.stringify(body),
       signal: ctrl.signal,
     });
   } catch (e) {
     clearTimeout(t);
-    throw new Error(`openrouter: fallo de red/timeout: ${String(e)}`);
+    throw new ChatHttpError(`${endpoint.model}: fallo de red/timeout: ${String(e)}`, null, true);
   }
   clearTimeout(t);
 
   if (!res.ok) {
     const text = await res.text().catch(() => '');
-    throw new Error(`openrouter ${res.status}: ${text || res.statusText}`);
+    throw new ChatHttpError(
+      `${endpoint.model} ${res.status}: ${text || res.statusText}`,
+      res.status,
+      isRetryableStatus(res.status)
+    );
   }
+  return res;
+}
 
+/**
+ * postWithFallback(params, stream): recorre la cadena de modelos.
+ * - Reintenta el mismo modelo con backoff exponencial (LLM_MAX_RETRIES) ante
+ *   errores reintentables; cualquier otro error pasa al siguiente modelo.
+ * - Devuelve la respuesta junto con el modelo que la produjo.
+ */
+async function postWithFallback(
+  params: CompleteParams,
+  stream: boolean
+): Promise<{ res: Response; ctrl: AbortController; model: string }> {
+  const maxRetries = getEnv().LLM_MAX_RETRIES;
+  const errors: string[] = [];
+  const statuses: (number | null)[] = [];
+
+  for (const model of resolveModelChain(params.purpose)) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      const ctrl = new AbortController();
+      try {
+        const res = await postChatCompletion(params, stream, ctrl, resolveEndpoint(model));
+        return { res, ctrl, model };
+      } catch (e) {
+        const err = e instanceof ChatHttpError ? e : new ChatHttpError(String(e), null);
+        if (!err.retryable || attempt === maxRetries) {
+          errors.push(err.message);
+          statuses.push(err.status);
+          break;
+        }
+        // 0.5s, 1s, 2s… con algo de jitter para no sincronizar reintentos.
+        await delay(500 * 2 ** attempt + Math.random() * 250);
+      }
+    }
+  }
+  throw new ChatChainError(
+    `openrouter: sin respuesta de la cadena de modelos (${errors.join(' | ')})`,
+    statuses
+  );
+}
+
+// Normaliza tool_calls del formato OpenAI a ChatToolCall.
+function toToolCalls(raw: unknown): ChatToolCall[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((c: any) => typeof c?.function?.name === 'string')
+    .map((c: any, i: number) => ({
+      id: typeof c.id === 'string' ? c.id : `call_${i}`,
+      name: c.function.name,
+      arguments:
+        typeof c.function.arguments === 'string'
+          ? c.function.arguments
+          : JSON.stringify(c.function.arguments ?? {}),
+    }));
+}
+
+// Valida que la completion traiga texto o tools.
+function finalizeCompletion(
+  content: string,
+  toolCalls: ChatToolCall[],
+  model: string
+): ChatCompletion {
+  const trimmed = content.trim();
+  if (!trimmed && toolCalls.length === 0) {
+    throw new Error(`openrouter: respuesta vacía (${model})`);
+  }
+  return { content: trimmed, toolCalls, model };
+}
+
+/**
+ * openrouterComplete(params): llama a /chat/completions (con la cadena de
+ * modelos) y devuelve el mensaje completo (content + tool_calls + modelo).
+ */
+export async function openrouterComplete(params: CompleteParams): Promise<ChatCompletion> {
+  const { res, model } = await postWithFallback(params, false);
   const json: any = await res.json().catch(() => ({}));
-  const text: unknown =
-    json?.choices?.[0]?.message?.content ??
-    json?.choices?.[0]?.delta?.content ??
-    '';
+  const message = json?.choices?.[0]?.message ?? json?.choices?.[0]?.delta ?? {};
+  const text: unknown = message?.content ?? '';
+  return finalizeCompletion(
+    typeof text === 'string' ? text : '',
+    toToolCalls(message?.tool_calls),
+    model
+  );
+}
+
+/**
+ * openrouterChatStream(params): igual que openrouterComplete pero con `stream: true`.
+ * - Emite cada delta de texto apenas llega ({ type: 'delta' }).
+ * - Acumula tool_calls parciales por índice y cierra con { type: 'done' }.
+ * - Timeout por inactividad entre chunks del stream: LLM_TIMEOUT_MS, el mismo
+ *   que espera los headers.
+ * - El fallback de modelos sólo aplica antes de recibir el stream: una vez
+ *   iniciado, un corte se propaga al llamador.
+ */
+export async function* openrouterChatStream(
+  params: CompleteParams
+): AsyncGenerator<ChatStreamEvent> {
+  const { res, ctrl, model } = await postWithFallback(params, true);
+  if (!res.body) throw new Error('openrouter: respuesta sin stream');
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  const calls: Array<{ id?: string; function: { name: string; arguments: string } }> = [];
+  let content = '';
+  let buffer = '';
+  const idleMs = getEnv().LLM_TIMEOUT_MS;
+  let idle = setTimeout(() => ctrl.abort(), idleMs);
+
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (e) {
+        throw new Error(`openrouter: stream interrumpido: ${String(e)}`);
+      }
+      if (chunk.done) break;
+      clearTimeout(idle);
+      idle = setTimeout(() => ctrl.abort(), idleMs);
+
+      buffer += decoder.decode(chunk.value, { stream: true });
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
 
-  if (typeof text !== 'string' || !text.trim()) {
-    throw new Error('openrouter: respuesta vacía');
+        // Líneas SSE: "data: {...}", "data: [DONE]" o comentarios ": ..."
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') continue;
+
+        let json: any;
+        try {
+          json = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        if (json?.error) {
+          throw new Error(`openrouter stream: ${json.error.message ?? JSON.stringify(json.error)}`);
+        }
+
+        const delta = json?.choices?.[0]?.delta ?? {};
+        if (typeof delta.content === 'string' && delta.content) {
+          content += delta.content;
+          yield { type: 'delta', value: delta.content };
+        }
+        if (Array.isArray(delta.tool_calls)) {
+          for (const part of delta.tool_calls) {
+            const index = typeof part?.index === 'number' ? part.index : calls.length;
+            const call = (calls[index] ??= { function: { name: '', arguments: '' } });
+            if (typeof part?.id === 'string') call.id = part.id;
+            if (typeof part?.function?.name === 'string') call.function.name += part.function.name;
+            if (typeof part?.function?.arguments === 'string')
+              call.function.arguments += part.function.arguments;
+          }
+        }
+      }
+    }
+  } finally {
+    clearTimeout(idle);
   }
-  return text.trim();
-}
\ No newline at end of file
+
+  yield {
+    type: 'done',
+    completion: finalizeCompletion(content, toToolCalls(calls.filter(Boolean)), model),
+  };
+}
+
+/**
+ * openrouterChat(params): variante de sólo texto sobre openrouterComplete.
+ * - Lanza error si el modelo no devolvió contenido.
+ */
+export async function openrouterChat(params: ChatParams): Promise<string> {
+  const { content } = await openrouterComplete(params);
+  if (!content) throw new Error('openrouter: respuesta vacía');
+  return content;
+}
@@ -0,0 +1,139 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/query-rewrite.ts — Reescritura de consultas RAG con contexto
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { jsonrepair } from "jsonrepair";
+import { z } from "zod";
+import { getEnv } from "@/lib/env";
+import { chatText } from "@/lib/llm";
+import type { AgentSession } from "@/lib/session-store";
+import type { AgentTextMessage } from "@/lib/types";
+
+/**
+ * RewrittenQuery: consultas que se mandan a searchDocuments.
+ * - `original`: la pregunta tal como llegó a search_docs.
+ * - `standalone`: versión autónoma (igual a `original` si no hizo falta o
+ *   si el LLM falló); `rewritten` indica si cambió.
+ * - `paraphrases`: variantes extra (QUERY_PARAPHRASES) cuyos resultados se
+ *   fusionan con los de `standalone`.
+ */
+export type RewrittenQuery = {
+  original: string;
+  standalone: string;
+  rewritten: boolean;
+  paraphrases: string[];
+};
+
+// Mensajes previos que ve el reescritor (los más recientes, recortados).
+const CONTEXT_MESSAGES = 6;
+const MAX_MESSAGE_CHARS = 300;
+
+const REWRITE_PROMPT = `Reescribís preguntas para buscarlas en la documentación interna de un equipo comercial.
+Reglas:
+1) Con la conversación previa, convertí la pregunta en una pregunta autónoma: reemplazá referencias ("esa key", "eso", "el segundo paso") por lo que nombran.
+2) Conservá términos exactos (nombres de productos, IDs, variables) y el idioma de la pregunta.
+3) Si la pregunta ya se entiende sola, devolvela igual. No la respondas.
+Devolvé SOLO un JSON: {"query": "<pregunta autónoma>", "paraphrases": ["<variante>", ...]}.`;
+
+const RewriteSchema = z.object({
+  query: z.string().min(1),
+  paraphrases: z.array(z.string()).default([]),
+});
+
+const clip = (text: string) => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_MESSAGE_CHARS
+    ? `${flat.slice(0, MAX_MESSAGE_CHARS - 3)}…`
+    : flat;
+};
+
+/**
+ * conversationContext(session): resumen de memoria + últimos mensajes de
+ * texto anteriores al turno actual (el último mensaje del usuario es la
+ * pregunta que se reescribe).
+ */
+function conversationContext(session: AgentSession): string {
+  const history = session.history;
+  let end = history.length;
+  while (end > 0 && history[end - 1].role !== "user") end--;
+  const recent = history
+    .slice(0, Math.max(0, end - 1))
+    .filter((m): m is AgentTextMessage => m.role !== "tool" && Boolean(m.content.trim()))
+    .slice(-CONTEXT_MESSAGES)
+    .map((m) => `${m.role === "user" ? "Usuario" : "Agente"}: ${clip(m.content)}`);
+
+  const summary = session.memory?.summary?.trim();
+  return [summary ? `Resumen previo:\n${summary}` : "", recent.join("\n")]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Variantes no vacías, sin repetir la pregunta ni entre sí (sin mayúsculas).
+function distinct(queries: string[], exclude: string[]) {
+  const seen = new Set(exclude.map((q) => q.toLowerCase()));
+  return queries
+    .map((q) => q.replace(/\s+/g, " ").trim())
+    .filter((q) => {
+      const key = q.toLowerCase();
+      if (!q || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * rewriteQuery(question, session): vuelve autónoma una pregunta de
+ * seguimiento ("¿y cómo se rota esa key?") usando el historial reciente.
+ * - Sin conversación previa ni paráfrasis pedidas, no llama al LLM.
+ * - QUERY_REWRITE=off desactiva el paso; QUERY_PARAPHRASES pide variantes.
+ * - Ante fallo del LLM devuelve la pregunta original (la búsqueda sigue).
+ */
+export async function rewriteQuery(
+  question: string,
+  session: AgentSession
+): Promise<RewrittenQuery> {
+  const env = getEnv();
+  const original = question.trim();
+  const unchanged: RewrittenQuery = {
+    original,
+    standalone: original,
+    rewritten: false,
+    paraphrases: [],
+  };
+  if (env.QUERY_REWRITE === "off") return unchanged;
+
+  const context = conversationContext(session);
+  const wanted = env.QUERY_PARAPHRASES;
+  if (!context && wanted === 0) return unchanged;
+
+  try {
+    const raw = await chatText({
+      system: REWRITE_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: `${context ? `Conversación previa:\n${context}\n\n` : ""}Pregunta: ${original}\nParáfrasis pedidas: ${wanted}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 300,
+      purpose: "rewrite",
+    });
+    const a = raw.indexOf("{");
+    const b = raw.lastIndexOf("}");
+    const parsed = RewriteSchema.parse(
+      JSON.parse(jsonrepair(a >= 0 && b > a ? raw.slice(a, b + 1) : raw))
+    );
+    // Sin contexto el LLM sólo aporta paráfrasis: la pregunta queda como vino.
+    const standalone = context ? parsed.query.replace(/\s+/g, " ").trim() : original;
+    return {
+      original,
+      standalone,
+      rewritten: standalone.toLowerCase() !== original.toLowerCase(),
+      paraphrases: distinct(parsed.paraphrases, [original, standalone]).slice(0, wanted),
+    };
+  } catch (err) {
+    console.warn("[query-rewrite] LLM falló, uso la pregunta original", err);
+    return unchanged;
+  }
+}
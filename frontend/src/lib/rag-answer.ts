@@ -0,0 +1,130 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/rag-answer.ts — Síntesis de respuestas RAG con citas
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { chatStream } from "@/lib/llm";
+import type { DocSearchResult } from "@/lib/rag";
+import type { DocCitation } from "@/lib/types";
+import { formatLocation } from "@/lib/utils";
+
+export type GroundedAnswer = {
+  answer: string;
+  citations: DocCitation[];
+  grounded: boolean; // false si la síntesis falló (parcial o extractiva)
+  model: string | null; // modelo que redactó la respuesta (null si falló)
+  extractive: boolean; // true sólo si corrió el fallback extractivo
+  error: string | null; // motivo del fallo de la síntesis, para el trace
+};
+
+// Prompt de síntesis: responder sólo con los fragmentos y citar cada afirmación.
+const SYNTHESIS_PROMPT = `Eres Laburen Agent y respondés preguntas usando SOLO los fragmentos de documentación provistos.
+Reglas:
+1) Cada afirmación debe llevar su cita inline con el formato exacto [ruta#id] del fragmento que la respalda.
+2) Si los fragmentos no alcanzan para responder, decilo explícitamente; no inventes datos.
+3) Respondé en español neutro, claro y conciso (máximo 6 oraciones o viñetas).`;
+
+/** citationLabel: etiqueta inline estable para un chunk ("[ruta#id]"). */
+export function citationLabel(doc: { id: number; path: string }) {
+  return `[${doc.path}#${doc.id}]`;
+}
+
+/**
+ * buildCitations(results): transforma resultados de búsqueda en citas para la UI.
+ * - Recorta el contenido a un snippet corto (tooltip/preview).
+ */
+export function buildCitations(results: DocSearchResult[]): DocCitation[] {
+  return results.map((r) => {
+    const text = r.content.replace(/\s+/g, " ").trim();
+    return {
+      id: r.id,
+      path: r.path,
+      similarity: r.similarity,
+      snippet: text.length > 160 ? `${text.slice(0, 157)}…` : text,
+      page: r.page,
+      section: r.section,
+      breadcrumb: r.breadcrumb,
+    };
+  });
+}
+
+// Contexto numerado que ve el LLM: cada fragmento precedido por su etiqueta
+// y, si la hay, su ubicación (página/sección).
+function formatContext(results: DocSearchResult[]) {
+  return results
+    .map((r) => {
+      const where =
+        r.page || r.section || r.breadcrumb ? ` (${formatLocation(r.path, r)})` : "";
+      return `${citationLabel(r)}${where}\n${r.content.trim()}`;
+    })
+    .join("\n\n---\n\n");
+}
+
+// Respuesta extractiva determinista cuando el LLM no está disponible.
+function extractiveAnswer(results: DocSearchResult[]) {
+  const lines = buildCitations(results).map(
+    (c) => `• ${c.snippet} ${citationLabel(c)}`
+  );
+  return `Esto es lo más relevante que encontré en la documentación:\n${lines.join(
+    "\n"
+  )}`;
+}
+
+/**
+ * synthesizeAnswer(question, results, onToken): redacta una respuesta fundamentada.
+ * - Envía los fragmentos al LLM con instrucciones de citar [ruta#id].
+ * - Con `onToken`, reenvía cada delta apenas llega (streaming real).
+ * - Devuelve sólo las citas efectivamente usadas (o todas si no citó ninguna).
+ * - Ante fallo del proveedor, degrada a un resumen extractivo con citas; si el
+ *   stream ya había emitido texto, se conserva lo recibido (sin fallback).
+ *   En ambos casos `error` lleva el motivo para el trace.
+ */
+export async function synthesizeAnswer(
+  question: string,
+  results: DocSearchResult[],
+  onToken?: (value: string) => void
+): Promise<GroundedAnswer> {
+  const citations = buildCitations(results);
+  let answer = "";
+  try {
+    const stream = chatStream({
+      system: SYNTHESIS_PROMPT,
+      messages: [
+        {
+          role: "user",
+          content: `Pregunta: ${question}\n\nFragmentos:\n\n${formatContext(
+            results
+          )}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 700,
+      purpose: "synthesis",
+    });
+    let model: string | null = null;
+    for await (const event of stream) {
+      if (event.type === "delta") {
+        answer += event.value;
+        onToken?.(event.value);
+      } else {
+        answer = event.completion.content;
+        model = event.completion.model;
+      }
+    }
+    const used = citations.filter((c) => answer.includes(citationLabel(c)));
+    return {
+      answer,
+      citations: used.length ? used : citations,
+      grounded: true,
+      model,
+      extractive: false,
+      error: null,
+    };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    if (answer.trim())
+      return { answer, citations, grounded: false, model: null, extractive: false, error };
+    const fallback = extractiveAnswer(results);
+    onToken?.(fallback);
+    return { answer: fallback, citations, grounded: false, model: null, extractive: true, error };
+  }
+}
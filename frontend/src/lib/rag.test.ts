@@ -0,0 +1,52 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/rag.test.ts — Fusión RRF de rankings (consulta + paráfrasis)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fuseRankings, type DocSearchResult } from "@/lib/rag";
+
+const doc = (id: number, similarity = 0.5): DocSearchResult => ({
+  id,
+  path: `doc-${id}.md`,
+  content: `contenido ${id}`,
+  similarity,
+  page: null,
+  section: null,
+  breadcrumb: null,
+});
+
+describe("fuseRankings", () => {
+  it("suma 1/(60 + rank) por cada ranking donde aparece el chunk", () => {
+    const fused = fuseRankings([
+      [doc(1), doc(2)],
+      [doc(2), doc(3)],
+    ]);
+    assert.deepEqual(
+      fused.map((r) => [r.id, r.score]),
+      [
+        [2, Number((1 / 62 + 1 / 61).toFixed(4))],
+        [1, Number((1 / 61).toFixed(4))],
+        [3, Number((1 / 62).toFixed(4))],
+      ]
+    );
+  });
+
+  it("conserva la mejor similitud de cada chunk", () => {
+    const [only] = fuseRankings([[doc(7, 0.3)], [doc(7, 0.8)], [doc(7, 0.5)]]);
+    assert.equal(only.similarity, 0.8);
+  });
+
+  it("desempata por id para que el orden sea estable", () => {
+    const fused = fuseRankings([[doc(9)], [doc(4)]]);
+    assert.deepEqual(
+      fused.map((r) => r.id),
+      [4, 9]
+    );
+  });
+
+  it("sin rankings devuelve vacío", () => {
+    assert.deepEqual(fuseRankings([]), []);
+    assert.deepEqual(fuseRankings([[], []]), []);
+  });
+});
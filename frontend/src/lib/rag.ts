@@ -4,6 +4,9 @@
 
 import { createEmbedding } from "@/lib/embeddings";
 import { query } from "@/lib/db";
+import { toMetaContainment, type DocFilter } from "@/lib/doc-filters";
+import { getEnv } from "@/lib/env";
+import { rerankResults, type RerankStrategy } from "@/lib/rerank";
 import { toPgVector } from "@/lib/utils";
 
 export type DocSearchResult = {
@@ -11,38 +14,303 @@ export type DocSearchResult = {
   path: string;
   content: string;
   similarity: number; // 1 - dist_cos
+  score?: number; // RRF (modos text/hybrid); ordena los resultados
+  rawScore?: number; // con rerank: score del retriever (RRF o coseno)
+  rerankScore?: number; // con rerank: puntaje 0..1 que define el orden final
+  page: number | null; // página del archivo (PDF), desde doc.meta.chunks
+  section: string | null; // encabezado de la sección, desde doc.meta.chunks
+  breadcrumb: string | null; // "Onboarding > Día 5 > Assessment"
+  degraded?: boolean; // true = corpus local BM25 (sin pgvector/embeddings)
 };
 
 /**
- * searchDocuments(question, limit, minSimilarity):
- * - Crea embedding para la consulta.
- * - Calcula similitud como 1 - distancia coseno (<=>) y ordena por proximidad.
- * - Redondea similitud a 3 decimales y filtra por umbral mínimo.
+ * SearchMode:
+ * - "vector": similitud coseno sobre embeddings (pgvector).
+ * - "text": full-text en español sin acentos (tsvector es_unaccent).
+ * - "hybrid": ambos rankings fusionados con reciprocal rank fusion.
+ */
+export const searchModes = ["vector", "text", "hybrid"] as const;
+export type SearchMode = (typeof searchModes)[number];
+
+/**
+ * SearchOptions:
+ * - `paths`: prefijos o globs de doc.path ("manual/onboarding/", "*.pdf").
+ * - `filters`: colección, tags y front-matter del documento (doc.meta).
+ * - `rerank`: estrategia de reordenamiento (default env RERANK).
+ */
+export type SearchOptions = {
+  limit?: number;
+  minSimilarity?: number;
+  mode?: SearchMode;
+  paths?: string[];
+  filters?: DocFilter;
+  rerank?: RerankStrategy;
+};
+
+// Constante k de RRF (valor usual del paper): amortigua el peso del top-1.
+const RRF_K = 60;
+// Candidatos por ranking antes de fusionar.
+const CANDIDATES = 30;
+
+// Página/sección/breadcrumb del chunk dentro de doc.meta.chunks.
+const LOCATION_JOIN = `
+    LEFT JOIN LATERAL (
+      SELECT (c->>'page')::int AS page,
+             c->>'section' AS section,
+             (SELECT string_agg(b, ' > ')
+                FROM jsonb_array_elements_text(c->'breadcrumb') b) AS breadcrumb
+      FROM jsonb_array_elements(COALESCE(d.meta->'chunks', '[]'::jsonb)) c
+      WHERE (c->>'id')::int = dc.id
+      LIMIT 1
+    ) loc ON true`;
+
+// Términos en OR: con AND (plainto/websearch) una pregunta en lenguaje natural
+// casi nunca matchea entera; ts_rank_cd premia a los que cubren más términos.
+const TSQUERY = `replace(plainto_tsquery('es_unaccent', $2)::text, ' & ', ' | ')::tsquery`;
+
+/**
+ * toLikePattern(glob): "*" → "%", escapa "%" y "_" literales; sin "*" se
+ * interpreta como prefijo ("manual/crm" → "manual/crm%").
+ */
+function toLikePattern(glob: string) {
+  const escaped = glob.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/\*/g, "%");
+  return glob.includes("*") ? escaped : `${escaped}%`;
+}
+
+/**
+ * retrieve(...): recuperación sin rerank.
+ * - Crea embedding para la consulta sólo en "vector"/"hybrid": "text" no
+ *   depende del proveedor de embeddings (similarity queda en 0).
+ * - "vector": ordena por distancia coseno (<=>); similitud = 1 - distancia.
+ * - "text"/"hybrid": rankea con ts_rank_cd sobre content_tsv y (en hybrid)
+ *   fusiona con el ranking vectorial: score = Σ 1 / (RRF_K + rank).
+ * - Filtra por umbral mínimo en el SQL (antes del LIMIT, así no se devuelven
+ *   menos de `limit` si hay candidatos); en text/hybrid un chunk con match de
+ *   texto se conserva aunque su coseno quede debajo. Redondea a 3 decimales.
+ * - Página/sección/breadcrumb salen de doc.meta.chunks (null si no hay).
+ * - `patterns` (LIKE) acota por doc.path y `filters` por contención en
+ *   doc.meta (índice GIN); ambos null = sin filtro.
  *
  * Notas de performance:
  * - Recomendado índice IVF/ivfflat o HNSW según tu extensión (pgvector >= 0.7
  *   soporta HNSW). Sin índice, será un scan secuencial costoso.
+ * - content_tsv es una columna generada con índice GIN (init.sql).
  */
-export async function searchDocuments(
+async function retrieve(
   question: string,
-  limit = 3,
-  minSimilarity = 0.25
+  limit: number,
+  minSimilarity: number,
+  mode: SearchMode,
+  paths: string[] | undefined,
+  filters: DocFilter | undefined
 ): Promise<DocSearchResult[]> {
-  const embedding = await createEmbedding(question);
-  const vector = toPgVector(embedding);
+  const vector = mode === "text" ? null : toPgVector(await createEmbedding(question));
+  const patterns = paths?.length ? paths.map(toLikePattern) : null;
+  const containment = toMetaContainment(filters);
+  const metaFilter = containment ? JSON.stringify(containment) : null;
+
+  if (mode === "vector") {
+    const sql = `
+      SELECT dc.id::int AS id,
+             d.path AS path,
+             dc.content AS content,
+             (1 - (dc.embedding <=> $1::vector))::float8 AS similarity,
+             loc.page AS page,
+             loc.section AS section,
+             loc.breadcrumb AS breadcrumb
+      FROM doc_chunk dc
+      JOIN doc d ON dc.doc_id = d.id
+      ${LOCATION_JOIN}
+      WHERE ($3::text[] IS NULL OR d.path LIKE ANY($3::text[]))
+        AND ($4::jsonb IS NULL OR d.meta @> $4::jsonb)
+        AND 1 - (dc.embedding <=> $1::vector) >= $5
+      ORDER BY dc.embedding <=> $1::vector
+      LIMIT $2
+    `;
+    const res = await query<DocSearchResult>(sql, [
+      vector,
+      limit,
+      patterns,
+      metaFilter,
+      minSimilarity,
+    ]);
+    return res.rows.map((r) => ({ ...r, similarity: Number(r.similarity.toFixed(3)) }));
+  }
 
+  // En "text" el ranking vectorial queda vacío ($1 null) y sólo cuenta el de texto.
   const sql = `
+    WITH vec AS (
+      SELECT dc.id, row_number() OVER (ORDER BY dc.embedding <=> $1::vector) AS rank
+      FROM doc_chunk dc
+      JOIN doc d ON dc.doc_id = d.id
+      WHERE $4 AND ($6::text[] IS NULL OR d.path LIKE ANY($6::text[]))
+        AND ($7::jsonb IS NULL OR d.meta @> $7::jsonb)
+      ORDER BY dc.embedding <=> $1::vector
+      LIMIT $3
+    ),
+    txt AS (
+      SELECT id, row_number() OVER (ORDER BY text_rank DESC) AS rank
+      FROM (
+        SELECT dc.id, ts_rank_cd(dc.content_tsv, ${TSQUERY}) AS text_rank
+        FROM doc_chunk dc
+        JOIN doc d ON dc.doc_id = d.id
+        WHERE dc.content_tsv @@ ${TSQUERY}
+          AND ($6::text[] IS NULL OR d.path LIKE ANY($6::text[]))
+          AND ($7::jsonb IS NULL OR d.meta @> $7::jsonb)
+        ORDER BY text_rank DESC
+        LIMIT $3
+      ) ranked
+    ),
+    fused AS (
+      SELECT COALESCE(vec.id, txt.id) AS id,
+             COALESCE(1.0 / (${RRF_K} + vec.rank), 0)
+               + COALESCE(1.0 / (${RRF_K} + txt.rank), 0) AS score,
+             txt.rank IS NOT NULL AS text_match
+      FROM vec FULL OUTER JOIN txt ON vec.id = txt.id
+    )
     SELECT dc.id::int AS id,
            d.path AS path,
            dc.content AS content,
-           (1 - (dc.embedding <=> $1::vector))::float8 AS similarity
-    FROM doc_chunk dc
+           COALESCE(1 - (dc.embedding <=> $1::vector), 0)::float8 AS similarity,
+           fused.score::float8 AS score,
+           loc.page AS page,
+           loc.section AS section,
+           loc.breadcrumb AS breadcrumb
+    FROM fused
+    JOIN doc_chunk dc ON dc.id = fused.id
     JOIN doc d ON dc.doc_id = d.id
-    ORDER BY dc.embedding <=> $1::vector
-    LIMIT $2
+    ${LOCATION_JOIN}
+    WHERE fused.text_match OR 1 - (dc.embedding <=> $1::vector) >= $8
+    ORDER BY fused.score DESC, dc.id
+    LIMIT $5
   `;
-  const res = await query<DocSearchResult>(sql, [vector, limit]);
-  return res.rows
-    .map((r) => ({ ...r, similarity: Number(r.similarity.toFixed(3)) }))
-    .filter((r) => r.similarity >= minSimilarity);
+  const res = await query<DocSearchResult>(sql, [
+    vector,
+    question,
+    Math.max(CANDIDATES, limit),
+    mode === "hybrid",
+    limit,
+    patterns,
+    metaFilter,
+    minSimilarity,
+  ]);
+  return res.rows.map((r) => ({
+    ...r,
+    similarity: Number(r.similarity.toFixed(3)),
+    score: Number((r.score ?? 0).toFixed(4)),
+  }));
+}
+
+// Opciones con defaults: limit 3, minSimilarity 0.25, mode SEARCH_MODE, rerank RERANK.
+function resolveOptions(options: SearchOptions) {
+  const env = getEnv();
+  const {
+    limit = 3,
+    minSimilarity = 0.25,
+    mode = env.SEARCH_MODE,
+    paths,
+    filters,
+    rerank = env.RERANK,
+  } = options;
+  // Con rerank se traen más candidatos de los que se devuelven.
+  const depth = rerank === "none" ? limit : Math.max(limit, env.RERANK_CANDIDATES);
+  return { limit, minSimilarity, mode, paths, filters, rerank, depth };
+}
+
+/**
+ * searchDocuments(question, options): búsqueda que usa search_docs.
+ * - Defaults: limit 3, minSimilarity 0.25, mode SEARCH_MODE, rerank RERANK.
+ * - Con rerank, pide max(limit, RERANK_CANDIDATES) candidatos, los reordena
+ *   (rerank.ts) y devuelve los `limit` mejores con rawScore y rerankScore.
+ */
+export async function searchDocuments(
+  question: string,
+  options: SearchOptions = {}
+): Promise<DocSearchResult[]> {
+  const { limit, minSimilarity, mode, paths, filters, rerank, depth } =
+    resolveOptions(options);
+  const candidates = await retrieve(question, depth, minSimilarity, mode, paths, filters);
+  if (rerank === "none") return candidates;
+  return (await rerankResults(question, candidates, rerank)).slice(0, limit);
+}
+
+/**
+ * fuseRankings(rankings): fusiona varios rankings por chunk con RRF.
+ * - score = Σ 1 / (RRF_K + rank) con rank desde 1; similarity = la mejor.
+ * - Orden por score y, a igualdad, por id (estable entre corridas).
+ */
+export function fuseRankings(rankings: DocSearchResult[][]): DocSearchResult[] {
+  const fused = new Map<number, DocSearchResult>();
+  for (const ranking of rankings) {
+    ranking.forEach((result, rank) => {
+      const prev = fused.get(result.id);
+      const gain = 1 / (RRF_K + rank + 1);
+      fused.set(result.id, {
+        ...(prev ?? result),
+        similarity: Math.max(prev?.similarity ?? result.similarity, result.similarity),
+        score: (prev?.score ?? 0) + gain,
+      });
+    });
+  }
+  return Array.from(fused.values())
+    .map((r) => ({ ...r, score: Number((r.score ?? 0).toFixed(4)) }))
+    .sort((x, y) => (y.score ?? 0) - (x.score ?? 0) || x.id - y.id);
+}
+
+/**
+ * searchQueries(queries, options): varias formulaciones de la misma pregunta
+ * (reescritura + paráfrasis) fusionadas con RRF por id de chunk.
+ * - La primera consulta es la principal: es la que usa el rerank.
+ * - `score` pasa a ser el RRF entre consultas; `similarity` es la mejor.
+ * - Con una sola consulta equivale a searchDocuments.
+ */
+export async function searchQueries(
+  queries: string[],
+  options: SearchOptions = {}
+): Promise<DocSearchResult[]> {
+  const unique = Array.from(new Set(queries.map((q) => q.trim()).filter(Boolean)));
+  if (unique.length <= 1) return searchDocuments(unique[0] ?? "", options);
+
+  const { limit, minSimilarity, mode, paths, filters, rerank, depth } =
+    resolveOptions(options);
+  const rankings = await Promise.all(
+    unique.map((q) => retrieve(q, depth, minSimilarity, mode, paths, filters))
+  );
+
+  const merged = fuseRankings(rankings).slice(0, depth);
+
+  if (rerank === "none") return merged.slice(0, limit);
+  return (await rerankResults(unique[0], merged, rerank)).slice(0, limit);
+}
+
+// ------------------------------- Colecciones --------------------------------
+export type DocCollection = { collection: string; docs: number; tags: string[] };
+
+// Las colecciones cambian sólo al re-ingestar: se cachean por un rato.
+const COLLECTIONS_TTL_MS = 60_000;
+let collectionsCache: { at: number; value: DocCollection[] } | null = null;
+
+/**
+ * listCollections(): colecciones indexadas con cantidad de docs y sus tags
+ * (para que el planner elija filtros de search_docs).
+ */
+export async function listCollections(): Promise<DocCollection[]> {
+  if (collectionsCache && Date.now() - collectionsCache.at < COLLECTIONS_TTL_MS)
+    return collectionsCache.value;
+  const res = await query<DocCollection>(
+    `SELECT d.meta->>'collection' AS collection,
+            count(*)::int AS docs,
+            COALESCE(
+              (SELECT array_agg(DISTINCT t ORDER BY t)
+                 FROM doc d2, jsonb_array_elements_text(COALESCE(d2.meta->'tags', '[]'::jsonb)) t
+                WHERE d2.meta->>'collection' = d.meta->>'collection'),
+              '{}'
+            ) AS tags
+       FROM doc d
+      WHERE d.meta ? 'collection'
+      GROUP BY d.meta->>'collection'
+      ORDER BY 1`
+  );
+  collectionsCache = { at: Date.now(), value: res.rows };
+  return res.rows;
 }
@@ -0,0 +1,52 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/rerank.test.ts — Scorer local del rerank (localScore)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { DocSearchResult } from "@/lib/rag";
+import { localScore } from "@/lib/rerank";
+
+const chunk = (content: string, similarity = 0, breadcrumb: string | null = null) =>
+  ({
+    id: 1,
+    path: "a.md",
+    content,
+    similarity,
+    page: null,
+    section: null,
+    breadcrumb,
+  }) satisfies DocSearchResult;
+
+describe("localScore", () => {
+  const question = "¿Cómo se rota la API key?";
+
+  it("prefiere el fragmento que cubre los términos de la pregunta", () => {
+    const relevant = localScore(question, chunk("Para rotar la API key generá una nueva."));
+    const unrelated = localScore(question, chunk("El onboarding dura cinco días."));
+    assert.ok(relevant > unrelated);
+  });
+
+  it("premia los bigramas de la pregunta contiguos en el fragmento", () => {
+    const together = localScore("api key", chunk("Renová la api key cada mes."));
+    const apart = localScore("api key", chunk("La key no es la api pública."));
+    assert.ok(together > apart);
+  });
+
+  it("cuenta el breadcrumb como parte del fragmento", () => {
+    const withTrail = localScore(question, chunk("Generá una nueva.", 0, "HubSpot > Rotar la API key"));
+    const without = localScore(question, chunk("Generá una nueva."));
+    assert.ok(withTrail > without);
+  });
+
+  it("usa la similitud del retriever como desempate y queda en 0..1", () => {
+    const a = localScore(question, chunk("Rotar la API key.", 0.9));
+    const b = localScore(question, chunk("Rotar la API key.", 0.1));
+    assert.ok(a > b);
+    assert.ok(a <= 1 && b >= 0);
+  });
+
+  it("sin términos útiles devuelve la similitud tal cual", () => {
+    assert.equal(localScore("¿y?", chunk("lo que sea", 0.42)), 0.42);
+  });
+});
@@ -0,0 +1,135 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/rerank.ts — Reordenamiento de candidatos RAG (local o LLM)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { jsonrepair } from "jsonrepair";
+import { z } from "zod";
+import { chatText } from "@/lib/llm";
+import type { DocSearchResult } from "@/lib/rag";
+
+/**
+ * RerankStrategy:
+ * - "none": se respeta el orden del retriever.
+ * - "local": scorer léxico pregunta↔fragmento (determinista, sin red).
+ * - "llm": el modelo puntúa cada candidato; ante fallo degrada a "local".
+ */
+export const rerankStrategies = ["none", "local", "llm"] as const;
+export type RerankStrategy = (typeof rerankStrategies)[number];
+
+// Palabras vacías frecuentes en preguntas (no aportan a la relevancia).
+const STOPWORDS = new Set(
+  (
+    "a al algo como con cual cuales cuando de del donde el en es esta este " +
+    "hay la las le lo los me mi mis o para por que qué se si sin sobre su sus " +
+    "tiene un una uno unos y ya yo tu te nos hace hacer puedo podes"
+  ).split(" ")
+);
+
+// Normaliza a minúsculas sin acentos y recorta a un "stem" de 5 letras
+// (integración/integraciones → integ). También lo usa el BM25 de static-docs.
+export function stems(text: string): string[] {
+  return (
+    text
+      .normalize("NFD")
+      .replace(/\p{Diacritic}/gu, "")
+      .toLowerCase()
+      .match(/[a-z0-9]+/g) ?? []
+  )
+    .filter((t) => !STOPWORDS.has(t))
+    .map((t) => t.slice(0, 5));
+}
+
+/**
+ * localScore(question, result): puntaje 0..1 que mira pregunta y fragmento a
+ * la vez (estilo cross-encoder, sin modelo):
+ * - cobertura de términos de la pregunta en el fragmento (breadcrumb incluido),
+ * - bigramas de la pregunta que aparecen contiguos,
+ * - similitud coseno del retriever como desempate.
+ */
+export function localScore(question: string, result: DocSearchResult): number {
+  const asked = stems(question);
+  const terms = Array.from(new Set(asked));
+  if (!terms.length) return result.similarity;
+  const doc = stems(`${result.breadcrumb ?? ""} ${result.content}`);
+  const vocabulary = new Set(doc);
+  const coverage = terms.filter((t) => vocabulary.has(t)).length / terms.length;
+
+  const bigramsOf = (tokens: string[]) =>
+    tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`);
+  const docPairs = new Set(bigramsOf(doc));
+  const askedPairs = bigramsOf(asked);
+  const bigrams = askedPairs.length
+    ? askedPairs.filter((p) => docPairs.has(p)).length / askedPairs.length
+    : coverage;
+
+  return 0.55 * coverage + 0.25 * bigrams + 0.2 * Math.max(0, result.similarity);
+}
+
+// ------------------------------- Rerank con LLM ------------------------------
+const RERANK_PROMPT = `Puntuás la relevancia de fragmentos de documentación para una pregunta.
+Devolvé SOLO un JSON: [{"i": <número de fragmento>, "score": <0 a 10>}, ...] con todos los fragmentos.
+10 = responde la pregunta directamente; 0 = no tiene relación.`;
+
+const LlmScoresSchema = z.array(
+  z.object({ i: z.coerce.number().int(), score: z.coerce.number().min(0).max(10) })
+);
+
+async function llmScores(question: string, results: DocSearchResult[]) {
+  const fragments = results
+    .map((r, i) => {
+      const text = r.content.replace(/\s+/g, " ").trim();
+      return `[${i}] ${r.path}\n${text.length > 600 ? `${text.slice(0, 597)}…` : text}`;
+    })
+    .join("\n\n");
+  const raw = await chatText({
+    system: RERANK_PROMPT,
+    messages: [
+      { role: "user", content: `Pregunta: ${question}\n\nFragmentos:\n\n${fragments}` },
+    ],
+    temperature: 0,
+    maxTokens: 600,
+    purpose: "rerank",
+  });
+  const a = raw.indexOf("[");
+  const b = raw.lastIndexOf("]");
+  const parsed = LlmScoresSchema.parse(
+    JSON.parse(jsonrepair(a >= 0 && b > a ? raw.slice(a, b + 1) : raw))
+  );
+  const byIndex = new Map(parsed.map((s) => [s.i, s.score / 10]));
+  return results.map((_, i) => byIndex.get(i) ?? 0);
+}
+
+/**
+ * rerankResults(question, results, strategy): reordena candidatos.
+ * - Cada resultado sale con `rawScore` (score del retriever: RRF o coseno) y
+ *   `rerankScore` (0..1); el orden final es por rerankScore.
+ * - Con "none" devuelve los resultados tal cual.
+ */
+export async function rerankResults(
+  question: string,
+  results: DocSearchResult[],
+  strategy: RerankStrategy
+): Promise<DocSearchResult[]> {
+  if (strategy === "none" || results.length === 0) return results;
+
+  const local = () => results.map((r) => localScore(question, r));
+  let scores: number[];
+  if (strategy === "llm") {
+    try {
+      scores = await llmScores(question, results);
+    } catch (err) {
+      console.warn("[rerank] LLM falló, uso scorer local", err);
+      scores = local();
+    }
+  } else {
+    scores = local();
+  }
+
+  return results
+    .map((r, i) => ({
+      ...r,
+      rawScore: r.score ?? r.similarity,
+      rerankScore: Number(scores[i].toFixed(3)),
+    }))
+    .sort((x, y) => y.rerankScore - x.rerankScore || y.rawScore - x.rawScore);
+}
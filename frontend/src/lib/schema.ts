@@ -0,0 +1,96 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/schema.ts — Migraciones idempotentes sobre bases ya creadas
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { withTransaction } from "@/lib/db";
+
+/**
+ * init.sql sólo corre cuando Postgres arranca con el volumen vacío
+ * (docker-entrypoint-initdb.d). Los objetos que se sumaron después se aplican
+ * acá, con sentencias idempotentes, desde la ingesta y el arranque del server.
+ */
+type Migration = { name: string; sql: string };
+
+const migrations: Migration[] = [
+  {
+    // Upsert por path de la ingesta incremental (ON CONFLICT (path)). Antes
+    // podía haber varias filas por path: se conserva la más nueva (los chunks
+    // de las otras se borran en cascada y el próximo ingest las reconcilia).
+    name: "doc_path_key",
+    sql: `
+      DO $$
+      BEGIN
+        IF to_regclass('doc_path_key') IS NULL THEN
+          DELETE FROM doc d USING doc newer
+            WHERE newer.path = d.path AND newer.id > d.id;
+          CREATE UNIQUE INDEX doc_path_key ON doc (path);
+        END IF;
+      END $$;`,
+  },
+  {
+    // Modo híbrido (default) y `text`: sin esto la búsqueda full-text falla y
+    // search_docs degrada al corpus estático sin que nadie lo note.
+    name: "content_tsv",
+    sql: `
+      CREATE EXTENSION IF NOT EXISTS unaccent;
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'es_unaccent') THEN
+          CREATE TEXT SEARCH CONFIGURATION es_unaccent (COPY = spanish);
+          ALTER TEXT SEARCH CONFIGURATION es_unaccent
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+        END IF;
+      END $$;
+      ALTER TABLE doc_chunk ADD COLUMN IF NOT EXISTS content_tsv tsvector
+        GENERATED ALWAYS AS (to_tsvector('es_unaccent', content)) STORED;
+      CREATE INDEX IF NOT EXISTS doc_chunk_content_tsv_gin
+        ON doc_chunk USING gin (content_tsv);`,
+  },
+  {
+    // Caché de embeddings (embedding-cache.ts); sin la tabla cada lookup falla.
+    name: "embedding_cache",
+    sql: `
+      CREATE TABLE IF NOT EXISTS embedding_cache (
+        model TEXT NOT NULL,
+        dim INT NOT NULL,
+        text_hash TEXT NOT NULL,
+        embedding vector NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        PRIMARY KEY (model, dim, text_hash)
+      );`,
+  },
+];
+
+/** Error de arranque: una migración falló (permisos, datos inconsistentes…). */
+export class SchemaMigrationError extends Error {}
+
+// Clave del advisory lock: server e ingesta pueden arrancar a la vez.
+const LOCK_KEY = 7_340_215;
+
+let _applied: Promise<string[]> | null = null; // una vez por proceso
+
+/**
+ * ensureSchema(): aplica las migraciones pendientes en una transacción.
+ * - Devuelve los nombres aplicados (todas: cada sentencia es idempotente).
+ * - Un error de conexión se propaga tal cual; uno de SQL se envuelve en
+ *   SchemaMigrationError con el nombre de la migración y la pista de init.sql.
+ */
+export function ensureSchema(): Promise<string[]> {
+  _applied ??= withTransaction(async (client) => {
+    await client.query("SELECT pg_advisory_xact_lock($1)", [LOCK_KEY]);
+    for (const m of migrations) {
+      try {
+        await client.query(m.sql);
+      } catch (e) {
+        throw new SchemaMigrationError(
+          `Migración ${m.name} falló: ${String(e)}. Revisá server/db/init.sql y aplicalo a mano si el usuario de la DB no tiene permisos.`
+        );
+      }
+    }
+    return migrations.map((m) => m.name);
+  }).catch((e) => {
+    _applied = null; // reintenta en la próxima llamada (p.ej. DB levantando)
+    throw e;
+  });
+  return _applied;
+}
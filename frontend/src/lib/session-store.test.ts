@@ -0,0 +1,69 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/session-store.test.ts — normalizeHistory (historial legacy)
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { normalizeHistory } from "@/lib/session-store";
+import type { AgentMessage } from "@/lib/types";
+
+describe("normalizeHistory", () => {
+  it("deja pasar sesiones ya normalizadas", () => {
+    const history: AgentMessage[] = [
+      { role: "user", content: "hola" },
+      {
+        role: "tool",
+        callId: "c1",
+        name: "list_notes",
+        input: {},
+        result: { success: true, notes: [] },
+        status: "success",
+      },
+      { role: "assistant", content: "No hay notas." },
+    ];
+    assert.deepEqual(normalizeHistory(history), history);
+  });
+
+  it("une TOOL_CALL con el TOOL_RESULT siguiente de la misma tool", () => {
+    const out = normalizeHistory([
+      { role: "user", content: "guardá una nota: demo" },
+      { role: "assistant", content: 'TOOL_CALL record_note: {"text":"demo"}' },
+      { role: "assistant", content: 'TOOL_RESULT record_note: {"success":true,"noteId":7}' },
+      { role: "assistant", content: "Nota guardada." },
+    ]);
+    assert.equal(out.length, 3);
+    assert.deepEqual(out[1], {
+      role: "tool",
+      callId: "legacy-2",
+      name: "record_note",
+      input: { text: "demo" },
+      result: { success: true, noteId: 7 },
+      status: "success",
+    });
+  });
+
+  it("marca error los TOOL_*_ERROR y los resultados con success=false", () => {
+    const out = normalizeHistory([
+      { role: "assistant", content: "TOOL_EXEC_ERROR create_lead: timeout" },
+      { role: "assistant", content: 'TOOL_RESULT delete_note: {"success":false,"message":"No existe"}' },
+    ]);
+    assert.deepEqual(
+      out.map((m) => (m.role === "tool" ? [m.name, m.status, m.error] : null)),
+      [
+        ["create_lead", "error", "timeout"],
+        ["delete_note", "error", undefined],
+      ]
+    );
+  });
+
+  it("no arrastra el input de un TOOL_CALL de otra tool", () => {
+    const [entry] = normalizeHistory([
+      { role: "assistant", content: 'TOOL_CALL list_notes: {"limit":5}' },
+      { role: "assistant", content: "TOOL_RESULT list_leads: texto plano" },
+    ]);
+    assert.equal(entry.role, "tool");
+    if (entry.role !== "tool") return;
+    assert.deepEqual(entry.input, {});
+    assert.equal(entry.result, "texto plano");
+  });
+});
@@ -3,27 +3,115 @@
 // ──────────────────────────────────────────────────────────────────────────────
 
 import { query, queryOne } from '@/lib/db';
-import type { AgentMessage } from '@/lib/types';
+import type { SessionMemory } from '@/lib/memory';
+import type { AgentMessage, AgentToolMessage, PendingAction } from '@/lib/types';
+
+/**
+ * SlotFillingState: diálogo en curso para completar el input de una tool.
+ * - `input` acumula los campos ya validados; `field` es el que se está pidiendo.
+ */
+export interface SlotFillingState {
+  tool: string;
+  input: Record<string, unknown>;
+  field: string;
+  attempts: number;
+}
 
 export interface AgentSession {
   id: string;
   createdAt: Date;
   history: AgentMessage[];
   authenticatedUser?: { id: number; name: string } | null;
+  pendingAction?: PendingAction | null;
+  slotFilling?: SlotFillingState | null;
+  memory?: SessionMemory | null;
 }
 
+type SessionRow = {
+  id: string;
+  created_at: string;
+  authenticated_user: any | null;
+  history: any;
+  pending_action: any | null;
+  slot_filling: any | null;
+  memory: any | null;
+};
+
 /**
  * clampHistory: acota el historial para evitar crecer indefinidamente.
  * - Mantiene los últimos N mensajes (default 120).
+ * - Red de seguridad: normalmente memory.ts compacta antes de llegar al tope.
  */
 function clampHistory(history: AgentMessage[], max = 120) {
   return history.length > max ? history.slice(history.length - max) : history;
 }
 
+// Formatos legacy: la actividad de tools se guardaba como texto del asistente.
+const legacyCallRe = /^TOOL_CALL (\S+): ([\s\S]*)$/;
+const legacyResultRe = /^TOOL_RESULT (\S+): ([\s\S]*)$/;
+const legacyErrorRe = /^TOOL_(?:INPUT_|EXEC_)?ERROR (\S+)(?:: ([\s\S]*))?$/;
+
+const parseLegacyJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+/**
+ * normalizeHistory: convierte entradas legacy (TOOL_CALL/TOOL_RESULT/TOOL_*_ERROR
+ * como mensajes del asistente) en mensajes `tool` estructurados.
+ * - Un TOOL_CALL se une al TOOL_RESULT/ERROR siguiente de la misma tool.
+ * - Sesiones ya normalizadas pasan sin cambios.
+ */
+export function normalizeHistory(raw: any[]): AgentMessage[] {
+  const out: AgentMessage[] = [];
+  let pendingCall: { name: string; input: unknown } | null = null;
+
+  raw.forEach((m, index) => {
+    const content = typeof m?.content === 'string' ? m.content : '';
+    if (m?.role !== 'assistant' || !content.startsWith('TOOL_')) {
+      out.push(m);
+      return;
+    }
+
+    const call = legacyCallRe.exec(content);
+    if (call) {
+      pendingCall = { name: call[1], input: parseLegacyJson(call[2]) };
+      return;
+    }
+
+    const ok = legacyResultRe.exec(content);
+    const failed = ok ? null : legacyErrorRe.exec(content);
+    const name = ok?.[1] ?? failed?.[1];
+    if (!name) {
+      out.push(m);
+      return;
+    }
+
+    const input = pendingCall?.name === name ? pendingCall.input : {};
+    pendingCall = null;
+    const result = ok ? parseLegacyJson(ok[2]) : null;
+    const entry: AgentToolMessage = {
+      role: 'tool',
+      callId: `legacy-${index}`,
+      name,
+      input,
+      result,
+      status: failed || (result as any)?.success === false ? 'error' : 'success',
+    };
+    if (failed) entry.error = failed[2] ?? 'Error de tool';
+    out.push(entry);
+  });
+
+  return out;
+}
+
 /**
  * serialize: prepara la sesión para persistencia.
  * - Convierte createdAt a ISO string.
- * - Asegura authenticated_user null si no hay usuario.
+ * - Asegura authenticated_user/pending_action/slot_filling/memory null si no hay valor.
  */
 function serialize(session: AgentSession) {
   return {
@@ -31,32 +119,51 @@ function serialize(session: AgentSession) {
     created_at: session.createdAt.toISOString(),
     authenticated_user: session.authenticatedUser ?? null,
     history: clampHistory(session.history),
+    pending_action: session.pendingAction ?? null,
+    slot_filling: session.slotFilling ?? null,
+    memory: session.memory ?? null,
+  };
+}
+
+/**
+ * deserialize: fila de DB → AgentSession.
+ * - Devuelve history como array; si viene en string JSON, lo parsea.
+ * - Normaliza entradas legacy de tools a mensajes `tool`.
+ */
+function deserialize(row: SessionRow): AgentSession {
+  const hist =
+    Array.isArray(row.history) ? row.history
+    : typeof row.history === 'string' ? JSON.parse(row.history as unknown as string)
+    : [];
+
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at),
+    authenticatedUser: row.authenticated_user ?? null,
+    history: normalizeHistory(hist),
+    pendingAction: row.pending_action ?? null,
+    slotFilling: row.slot_filling ?? null,
+    memory: row.memory ?? null,
   };
 }
 
 /**
  * getSession(id): obtiene o crea una sesión por ID en una sola operación.
  * - Usa un CTE con INSERT ... ON CONFLICT DO NOTHING y luego selecciona.
- * - Devuelve history como array; si viene en string JSON, lo parsea.
  */
 export async function getSession(id: string): Promise<AgentSession> {
-  const row = await queryOne<{
-    id: string;
-    created_at: string;
-    authenticated_user: any | null;
-    history: any;
-  }>(
+  const row = await queryOne<SessionRow>(
     // UPSERT atómico + lectura en una sola query
     `
     WITH upsert AS (
       INSERT INTO session (id)
       VALUES ($1)
       ON CONFLICT (id) DO NOTHING
-      RETURNING id, created_at, authenticated_user, history
+      RETURNING id, created_at, authenticated_user, history, pending_action, slot_filling, memory
     )
-    SELECT id, created_at, authenticated_user, history FROM upsert
+    SELECT id, created_at, authenticated_user, history, pending_action, slot_filling, memory FROM upsert
     UNION ALL
-    SELECT id, created_at, authenticated_user, history
+    SELECT id, created_at, authenticated_user, history, pending_action, slot_filling, memory
       FROM session
      WHERE id = $1
     LIMIT 1
@@ -64,21 +171,25 @@ export async function getSession(id: string): Promise<AgentSession> {
     [id]
   );
 
-  const hist =
-    Array.isArray(row?.history) ? row!.history
-    : typeof row?.history === 'string' ? JSON.parse(row!.history as unknown as string)
-    : [];
+  return deserialize(row!);
+}
 
-  return {
-    id: row!.id,
-    createdAt: new Date(row!.created_at),
-    authenticatedUser: row!.authenticated_user ?? null,
-    history: hist,
-  };
+/**
+ * findSession(id): lectura sin efectos (no crea la sesión si no existe).
+ * - Útil para restaurar estado en la UI tras recargar la página.
+ */
+export async function findSession(id: string): Promise<AgentSession | null> {
+  const row = await queryOne<SessionRow>(
+    `SELECT id, created_at, authenticated_user, history, pending_action, slot_filling, memory
+       FROM session
+      WHERE id = $1`,
+    [id]
+  );
+  return row ? deserialize(row) : null;
 }
 
 /**
- * saveSession(session): persiste cambios en authenticated_user e history.
+ * saveSession(session): persiste authenticated_user, history, pending_action, slot_filling y memory.
  * - Actualiza updated_at = now() para auditoría.
  * - Requiere que la tabla session tenga columna updated_at (timestamp/timestamptz).
  */
@@ -88,8 +199,18 @@ export async function saveSession(session: AgentSession): Promise<void> {
     `UPDATE session
         SET authenticated_user = $2::jsonb,
             history = $3::jsonb,
+            pending_action = $4::jsonb,
+            slot_filling = $5::jsonb,
+            memory = $6::jsonb,
             updated_at = now()
       WHERE id = $1`,
-    [s.id, JSON.stringify(s.authenticated_user), JSON.stringify(s.history)]
+    [
+      s.id,
+      JSON.stringify(s.authenticated_user),
+      JSON.stringify(s.history),
+      JSON.stringify(s.pending_action),
+      JSON.stringify(s.slot_filling),
+      JSON.stringify(s.memory),
+    ]
   );
 }
@@ -0,0 +1,88 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/static-docs.test.ts — Ranking BM25 del corpus de respaldo
+// ──────────────────────────────────────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+// Corpus temporal; getEnv() exige DATABASE_URL aunque acá no se consulte.
+const root = await mkdtemp(path.join(tmpdir(), "static-docs-"));
+Object.assign(process.env, {
+  FALLBACK_DOCS_ROOT: root,
+  DATABASE_URL: process.env.DATABASE_URL ?? "postgres://unused",
+  LLM_PROVIDER: "scripted",
+});
+const { fallbackDocSearch } = await import("@/lib/static-docs");
+
+const files: Record<string, string> = {
+  "integraciones/hubspot.md": [
+    "---",
+    "keywords: [hubspot, crm]",
+    "tags: [crm]",
+    "---",
+    "# HubSpot",
+    "",
+    "## Rotar la API key",
+    "",
+    "Para rotar la API key de HubSpot generá una nueva clave en el panel y reemplazala en la integración.",
+    "",
+    "## Webhooks",
+    "",
+    "Los webhooks notifican cambios de contactos.",
+  ].join("\n"),
+  "onboarding/primer-dia.md": [
+    "# Primer día",
+    "",
+    "Configurá tu laptop, pedí acceso al repositorio y leé la guía de estilo.",
+  ].join("\n"),
+  "notas.txt": "hubspot hubspot hubspot (no es Markdown: no se indexa)",
+};
+
+describe("fallbackDocSearch (BM25)", () => {
+  before(async () => {
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await writeFile(path.join(root, file), content);
+    }
+  });
+  after(() => rm(root, { recursive: true, force: true }));
+
+  it("ordena por relevancia y devuelve el shape de searchDocuments", async () => {
+    const [top, ...rest] = await fallbackDocSearch("¿Cómo roto la API key de HubSpot?", {
+      limit: 3,
+    });
+    assert.equal(top.path, "integraciones/hubspot.md");
+    assert.equal(top.section, "Rotar la API key");
+    assert.equal(top.breadcrumb, "HubSpot > Rotar la API key");
+    assert.equal(top.degraded, true);
+    assert.ok(top.similarity > 0 && top.similarity <= 1);
+    for (const r of rest) assert.ok((r.score ?? 0) <= (top.score ?? 0));
+  });
+
+  it("las keywords del front-matter suman aunque el texto no las nombre", async () => {
+    const [top] = await fallbackDocSearch("crm", { limit: 1 });
+    assert.equal(top?.path, "integraciones/hubspot.md");
+  });
+
+  it("sin términos en común no devuelve nada", async () => {
+    assert.deepEqual(await fallbackDocSearch("facturación trimestral"), []);
+  });
+
+  it("aplica paths y filtros de colección/tags", async () => {
+    const question = "guía de estilo y API key";
+    const onboarding = await fallbackDocSearch(question, { paths: ["onboarding/"] });
+    assert.deepEqual([...new Set(onboarding.map((r) => r.path))], ["onboarding/primer-dia.md"]);
+
+    const crm = await fallbackDocSearch(question, { filters: { tags: ["crm"] } });
+    assert.ok(crm.length > 0);
+    assert.ok(crm.every((r) => r.path === "integraciones/hubspot.md"));
+
+    assert.deepEqual(
+      await fallbackDocSearch(question, { filters: { collection: "ventas" } }),
+      []
+    );
+  });
+});
@@ -1,49 +1,170 @@
-import type { DocSearchResult } from "@/lib/rag";
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/static-docs.ts — Corpus local de respaldo para search_docs (BM25)
+// ──────────────────────────────────────────────────────────────────────────────
 
-const STATIC_DOCS: Array<{
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { chunkMarkdown, formatBreadcrumb, splitFrontMatter } from "@/lib/chunker";
+import { docLabels, matchesFilter, type DocLabels } from "@/lib/doc-filters";
+import { getEnv } from "@/lib/env";
+import type { DocSearchResult, SearchOptions } from "@/lib/rag";
+import { stems } from "@/lib/rerank";
+
+/**
+ * Corpus de respaldo: Markdown bajo FALLBACK_DOCS_ROOT (default
+ * fallback-docs/), con `keywords` opcionales en el front-matter. Se usa sólo
+ * cuando pgvector u Ollama fallan (sin resultados en la base no hay respaldo).
+ * - Colección y etiquetas salen como en la ingesta (docLabels), así los
+ *   filtros de search_docs valen igual acá.
+ * - Se indexa en memoria la primera vez que hace falta (reiniciar para recargar).
+ * - Cada chunk es un documento BM25; las keywords pesan como KEYWORD_WEIGHT
+ *   apariciones en todos los chunks del archivo.
+ */
+
+// IDs sintéticos para las citas [path#id] (fuera del rango usual de doc_chunk).
+const FALLBACK_ID_BASE = 10_000;
+// Parámetros BM25 estándar: saturación de frecuencia y normalización por largo.
+const K1 = 1.2;
+const B = 0.75;
+const KEYWORD_WEIGHT = 3;
+
+type IndexedChunk = {
+  id: number;
   path: string;
-  keywords: string[];
   content: string;
-}> = [
-  {
-    path: "manual/onboarding/resumen.md",
-    keywords: ["onboarding", "inducción", "bienvenida", "documentación"],
-    content:
-      "Guía de onboarding comercial.\n" +
-      "Duración: 10 días hábiles divididos en tres etapas (Descubrimiento, Practica Guiada y Operación Asistida).\n" +
-      "Incluye checklist diario en Notion, videos cortos en Loom y playbooks descargables (PDF) para discovery, demo y cierre.\n" +
-      "El kit de bienvenida está en Google Drive > Sales > Onboarding, con plantillas de emails, speech comercial y preguntas frecuentes.\n" +
-      "Cada nuevo representante debe completar el assessment del día 5 y agendar retroalimentación con su buddy en el día 7.",
-  },
-  {
-    path: "manual/integraciones/crm/crm-hubspot.md",
-    keywords: ["crm", "hubspot", "integración", "pipeline", "sincronización"],
-    content:
-      "Integración del agente con HubSpot.\n" +
-      "La autenticación usa una API key de servicio almacenada en Vault y se rota mensualmente.\n" +
-      "Sincronización: los leads creados o actualizados por el agente se envían al endpoint /crm/v3/objects/contacts con el owner_id del usuario autenticado.\n" +
-      "El agente consulta el pipeline 'Ventas LatAm' en modo lectura para traer etapas y follow-ups abiertos.\n" +
-      "Los campos personalizados laburen_agent_status y laburen_agent_notes guardan el estado y comentarios generados por el asistente.",
-  },
-];
-
-function normalize(text: string) {
-  return text
-    .normalize("NFD")
-    .replace(/\p{Diacritic}/gu, "")
-    .toLowerCase();
+  section: string | null;
+  breadcrumb: string | null;
+  labels: DocLabels;
+  terms: Map<string, number>;
+  length: number;
+};
+
+type Bm25Index = {
+  chunks: IndexedChunk[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+};
+
+const toKeywords = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string"
+    ? value.split(",")
+    : [];
+
+async function buildIndex(root: string): Promise<Bm25Index> {
+  const files = (await readdir(root, { recursive: true }).catch((err) => {
+    console.warn(`[static-docs] no pude leer ${root}`, err);
+    return [] as string[];
+  }))
+    .filter((file) => /\.(md|markdown)$/i.test(file))
+    .sort();
+
+  const chunks: IndexedChunk[] = [];
+  for (const file of files) {
+    const raw = await readFile(path.join(root, file), "utf8");
+    const { frontMatter, body } = splitFrontMatter(raw);
+    const keywords = toKeywords(frontMatter?.keywords).flatMap(stems);
+    const labels = docLabels(file, frontMatter ?? {});
+    for (const chunk of chunkMarkdown(body)) {
+      const terms = new Map<string, number>();
+      const tokens = stems(chunk.embedText);
+      for (const t of tokens) terms.set(t, (terms.get(t) ?? 0) + 1);
+      for (const t of keywords) terms.set(t, (terms.get(t) ?? 0) + KEYWORD_WEIGHT);
+      chunks.push({
+        id: FALLBACK_ID_BASE + chunks.length,
+        path: file.split(path.sep).join("/"),
+        content: chunk.text,
+        section: chunk.breadcrumb[chunk.breadcrumb.length - 1] ?? null,
+        breadcrumb: chunk.breadcrumb.length ? formatBreadcrumb(chunk.breadcrumb) : null,
+        labels,
+        terms,
+        length: tokens.length + keywords.length * KEYWORD_WEIGHT,
+      });
+    }
+  }
+
+  const documentFrequency = new Map<string, number>();
+  for (const chunk of chunks)
+    for (const t of chunk.terms.keys())
+      documentFrequency.set(t, (documentFrequency.get(t) ?? 0) + 1);
+  const averageLength =
+    chunks.reduce((n, c) => n + c.length, 0) / Math.max(1, chunks.length);
+  return { chunks, documentFrequency, averageLength };
+}
+
+// Índice por proceso; un fallo de lectura no queda cacheado.
+let cached: { root: string; index: Promise<Bm25Index> } | null = null;
+
+function corpusIndex(): Promise<Bm25Index> {
+  const root = path.resolve(process.cwd(), getEnv().FALLBACK_DOCS_ROOT);
+  if (cached?.root !== root) {
+    const index = buildIndex(root).catch((err) => {
+      cached = null;
+      throw err;
+    });
+    cached = { root, index };
+  }
+  return cached.index;
 }
 
-export function fallbackDocSearch(question: string): DocSearchResult[] {
-  const normalizedQuestion = normalize(question);
-  const matches = STATIC_DOCS.filter((doc) =>
-    doc.keywords.some((keyword) => normalizedQuestion.includes(normalize(keyword)))
+// Mismo criterio que los `paths` de searchDocuments: "*" comodín, si no prefijo.
+function pathMatcher(paths: string[] | undefined) {
+  if (!paths?.length) return () => true;
+  const patterns = paths.map((glob) => {
+    const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    return new RegExp(`^${escaped}${glob.includes("*") ? "$" : ""}`);
+  });
+  return (docPath: string) => patterns.some((re) => re.test(docPath));
+}
+
+/**
+ * fallbackDocSearch(question, options): top-`limit` chunks del corpus local por BM25.
+ * - Mismo shape que searchDocuments, con `degraded: true`.
+ * - Respeta `paths` y `filters` de search_docs (`mode`/`rerank` no aplican).
+ * - `score` = BM25; `similarity` = fracción de términos de la pregunta presentes.
+ */
+export async function fallbackDocSearch(
+  question: string,
+  options: Pick<SearchOptions, "limit" | "paths" | "filters"> = {}
+): Promise<DocSearchResult[]> {
+  const { limit = 3, paths, filters } = options;
+  const { chunks: all, documentFrequency, averageLength } = await corpusIndex();
+  const terms = Array.from(new Set(stems(question)));
+  const inPaths = pathMatcher(paths);
+  const chunks = all.filter(
+    (chunk) => inPaths(chunk.path) && matchesFilter(chunk.labels, filters)
   );
+  if (!terms.length || !chunks.length) return [];
+
+  const scored = chunks.map((chunk) => {
+    let score = 0;
+    let matched = 0;
+    for (const t of terms) {
+      const tf = chunk.terms.get(t);
+      if (!tf) continue;
+      matched++;
+      const df = documentFrequency.get(t) ?? 0;
+      const idf = Math.log(1 + (all.length - df + 0.5) / (df + 0.5));
+      const norm = K1 * (1 - B + (B * chunk.length) / averageLength);
+      score += (idf * tf * (K1 + 1)) / (tf + norm);
+    }
+    return { chunk, score, coverage: matched / terms.length };
+  });
 
-  return matches.map((doc, index) => ({
-    id: 10_000 + index,
-    path: doc.path,
-    content: doc.content,
-    similarity: Number((0.9 - index * 0.05).toFixed(3)),
-  }));
+  return scored
+    .filter((s) => s.score > 0)
+    .sort((x, y) => y.score - x.score || x.chunk.id - y.chunk.id)
+    .slice(0, limit)
+    .map(({ chunk, score, coverage }) => ({
+      id: chunk.id,
+      path: chunk.path,
+      content: chunk.content,
+      similarity: Number(coverage.toFixed(3)),
+      score: Number(score.toFixed(4)),
+      page: null,
+      section: chunk.section,
+      breadcrumb: chunk.breadcrumb,
+      degraded: true,
+    }));
 }
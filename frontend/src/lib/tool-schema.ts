@@ -0,0 +1,194 @@
+// ──────────────────────────────────────────────────────────────────────────────
+// File: src/lib/tool-schema.ts — Zod → JSON Schema y catálogo de tools para prompts
+// ──────────────────────────────────────────────────────────────────────────────
+
+import { z } from "zod";
+import type { ToolRegistry } from "@/lib/tools";
+import type { ChatToolDefinition } from "@/lib/openrouter";
+
+/**
+ * JsonSchema: subconjunto de JSON Schema que entienden los proveedores
+ * OpenAI-compatibles en `tools[].function.parameters`.
+ */
+export type JsonSchema = {
+  type?: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | boolean)[];
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+};
+
+// Desenvuelve wrappers que no cambian la forma del valor (optional, default, effects...).
+function unwrap(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean } {
+  let inner = schema;
+  let optional = false;
+  for (;;) {
+    if (inner instanceof z.ZodOptional) {
+      optional = true;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodDefault) {
+      optional = true;
+      inner = inner._def.innerType;
+    } else if (inner instanceof z.ZodNullable) {
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else {
+      return { inner, optional };
+    }
+  }
+}
+
+/**
+ * zodToJsonSchema(schema): convierte los tipos zod usados por las tools.
+ * - Soporta object, string, number, boolean, date, enum, literal y array.
+ * - Tipos no reconocidos se emiten como schema abierto ({}).
+ * - Conserva `.describe()` como description para orientar al LLM.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { inner } = unwrap(schema);
+  const description = schema.description ?? inner.description;
+  const out: JsonSchema = {};
+
+  if (inner instanceof z.ZodObject) {
+    const shape = inner.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!unwrap(value).optional) required.push(key);
+    }
+    Object.assign(out, {
+      type: "object",
+      properties,
+      additionalProperties: false,
+      ...(required.length ? { required } : {}),
+    });
+  } else if (inner instanceof z.ZodString) {
+    out.type = "string";
+    for (const check of inner._def.checks) {
+      if (check.kind === "email") out.format = "email";
+      if (check.kind === "min") out.minLength = check.value;
+    }
+  } else if (inner instanceof z.ZodNumber) {
+    out.type = inner.isInt ? "integer" : "number";
+    for (const check of inner._def.checks) {
+      if (check.kind === "min")
+        out[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      if (check.kind === "max")
+        out[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  } else if (inner instanceof z.ZodBoolean) {
+    out.type = "boolean";
+  } else if (inner instanceof z.ZodDate) {
+    Object.assign(out, { type: "string", format: "date-time" });
+  } else if (inner instanceof z.ZodEnum) {
+    Object.assign(out, { type: "string", enum: [...inner.options] });
+  } else if (inner instanceof z.ZodLiteral) {
+    // El tipo sale del valor: z.literal(3) es integer, z.literal(true) boolean.
+    const value = inner.value;
+    if (typeof value === "number")
+      Object.assign(out, { type: Number.isInteger(value) ? "integer" : "number", enum: [value] });
+    else if (typeof value === "boolean")
+      Object.assign(out, { type: "boolean", enum: [value] });
+    else Object.assign(out, { type: "string", enum: [String(value)] });
+  } else if (inner instanceof z.ZodArray) {
+    Object.assign(out, { type: "array", items: zodToJsonSchema(inner.element) });
+  }
+
+  if (description) out.description = description;
+  return out;
+}
+
+/**
+ * invalidFields(schema, input): campos de primer nivel ausentes o inválidos.
+ * - Ordenados según el shape del schema (orden natural para preguntar).
+ * - "" representa un error a nivel raíz (input que ni siquiera es objeto).
+ */
+export function invalidFields(schema: z.ZodTypeAny, input: unknown): string[] {
+  const result = schema.safeParse(input ?? {});
+  if (result.success) return [];
+  const keys = new Set(result.error.issues.map((i) => String(i.path[0] ?? "")));
+  const { inner } = unwrap(schema);
+  const order = inner instanceof z.ZodObject ? Object.keys(inner.shape) : [];
+  return [
+    ...order.filter((k) => keys.has(k)),
+    ...[...keys].filter((k) => !order.includes(k)),
+  ];
+}
+
+/**
+ * isValidField(schema, field, value): valida un único campo contra su schema.
+ */
+export function isValidField(
+  schema: z.ZodTypeAny,
+  field: string,
+  value: unknown
+): boolean {
+  const { inner } = unwrap(schema);
+  if (!(inner instanceof z.ZodObject)) return false;
+  const fieldSchema = (inner.shape as Record<string, z.ZodTypeAny>)[field];
+  return fieldSchema ? fieldSchema.safeParse(value).success : false;
+}
+
+// Renderiza un tipo JSON Schema en notación compacta estilo TypeScript.
+function describeType(schema: JsonSchema): string {
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join("|");
+  if (schema.type === "array")
+    return `${schema.items ? describeType(schema.items) : "unknown"}[]`;
+  if (schema.type === "object") return describeSignature(schema);
+  if (schema.type === "integer") return "number";
+  return schema.type ?? "unknown";
+}
+
+function describeSignature(schema: JsonSchema): string {
+  const required = new Set(schema.required ?? []);
+  const fields = Object.entries(schema.properties ?? {}).map(
+    ([key, value]) =>
+      `"${key}"${required.has(key) ? "" : "?"}: ${describeType(value)}`
+  );
+  return fields.length ? `{ ${fields.join(", ")} }` : "{}";
+}
+
+/**
+ * describeToolSignature(schema): firma legible del input de una tool.
+ * Ej.: { "name": string, "email": string, "source"?: string }
+ */
+export function describeToolSignature(schema: z.ZodTypeAny): string {
+  return describeSignature(zodToJsonSchema(schema));
+}
+
+/**
+ * buildToolCatalogue(registry): catálogo de tools para prompts en modo JSON.
+ * - Una línea por tool: nombre, firma del input y descripción.
+ */
+export function buildToolCatalogue(registry: ToolRegistry): string {
+  return Object.values(registry)
+    .map(
+      (def) =>
+        `- ${def.name} ${describeToolSignature(def.schema)} — ${def.description}`
+    )
+    .join("\n");
+}
+
+/**
+ * toChatTools(registry): definiciones OpenAI-style (`tools`) para function calling.
+ */
+export function toChatTools(registry: ToolRegistry): ChatToolDefinition[] {
+  return Object.values(registry).map((def) => ({
+    type: "function",
+    function: {
+      name: def.name,
+      description: def.description,
+      parameters: zodToJsonSchema(def.schema),
+    },
+  }));
+}
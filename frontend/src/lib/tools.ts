@@ -10,6 +10,10 @@
  * - Tipos fuertes: cada tool trae su Zod schema. Se rechaza input inválido.
  * - Seguridad: SQL parametrizado evita inyección. Autorización por `session`.
  * - UX: cada tool devuelve un objeto con `success`, `message` y payload útil.
+ * - Confirmación: las tools con efectos de escritura/borrado declaran
+ *   `requiresConfirmation` y el agente pide un "sí" antes de ejecutarlas.
+ * - Slot-filling: `slotPrompts` declara la pregunta para cada campo requerido;
+ *   si el input llega incompleto, el agente los pide de a uno.
  * - Escalabilidad: conviene agregar índices a tablas consultadas con frecuencia.
  *
  * Dependencias DB implícitas:
@@ -25,7 +29,12 @@
 
 import { z } from "zod";
 import { query } from "@/lib/db";
-import { searchDocuments } from "@/lib/rag"; // Mantener la ruta acorde a tu estructura
+import { docFilterSchema } from "@/lib/doc-filters";
+import { getEnv } from "@/lib/env";
+import { searchModes, searchQueries, type DocSearchResult } from "@/lib/rag"; // Mantener la ruta acorde a tu estructura
+import { rewriteQuery } from "@/lib/query-rewrite";
+import { rerankStrategies } from "@/lib/rerank";
+import { fallbackDocSearch } from "@/lib/static-docs";
 import type { AgentSession } from "@/lib/session-store";
 
 // Contexto que reciben las tools: hoy sólo session, extensible a más (tenant, traceId, etc.)
@@ -39,6 +48,9 @@ export interface ToolDefinition<TInput = any, TResult = any> {
   description: string; // explicación breve para prompts/UI
   schema: z.ZodType<TInput>; // validación fuerte del input
   execute: (input: TInput, context: ToolExecutionContext) => Promise<TResult>; // efecto principal
+  requiresConfirmation?: boolean; // si true, el agente pide confirmación antes de ejecutar
+  describeAction?: (input: TInput) => string; // resumen humano de lo que hará (para confirmar)
+  slotPrompts?: Record<string, string>; // pregunta por campo faltante; admite {campo} como placeholder
 }
 
 // Registro indexado por nombre de tool
@@ -47,15 +59,16 @@ export type ToolRegistry = Record<string, ToolDefinition<any, any>>;
 // ------------------------------ Schemas (Zod) ------------------------------
 // Validan inputs de usuario/LLM antes de tocar la base de datos.
 
-// Auth por passcode: nombre libre + passcode no vacío
+// Auth por passcode: nombre libre + passcode no vacío. Los nombres vacíos se
+// rechazan para que el slot-filling no acepte "" como respuesta.
 const verifyPasscodeSchema = z.object({
-  name: z.string(),
+  name: z.string().trim().min(1),
   passcode: z.string().min(1),
 });
 
 // Alta de lead: email válido. `source` opcional para tracking.
 const createLeadSchema = z.object({
-  name: z.string(),
+  name: z.string().trim().min(1),
   email: z.string().email(),
   source: z.string().optional(),
 });
@@ -68,8 +81,31 @@ const listNotesSchema = z.object({
   limit: z.coerce.number().int().positive().max(50).optional(),
 });
 
-// Búsqueda semántica: pregunta no vacía.
-const searchSchema = z.object({ question: z.string().min(1) });
+// Búsqueda en documentación: pregunta no vacía; ranking, top-k, umbral,
+// filtros de ruta y de metadata (colección, tags) y rerank opcionales
+// (defaults en searchDocuments).
+const searchSchema = z.object({
+  question: z.string().min(1),
+  mode: z
+    .enum(searchModes)
+    .optional()
+    .describe(
+      "vector (semántica), text (términos exactos) o hybrid (ambas, default)"
+    ),
+  limit: z.coerce.number().int().positive().max(10).optional(),
+  minSimilarity: z.coerce.number().min(0).max(1).optional(),
+  paths: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("prefijos o globs de ruta, p.ej. manual/onboarding/ o *.pdf"),
+  filters: docFilterSchema
+    .optional()
+    .describe("acota por colección, tags o front-matter del documento"),
+  rerank: z
+    .enum(rerankStrategies)
+    .optional()
+    .describe("none, local (léxico) o llm; reordena candidatos antes de recortar"),
+});
 
 // Borrado de nota por ID entero positivo.
 const deleteNoteSchema = z.object({
@@ -102,6 +138,109 @@ const completeFollowupSchema = z.object({
   followUpId: z.coerce.number().int().positive(),
 });
 
+// --------------------------- Resultados (Zod) ------------------------------
+// Shape de lo que devuelve cada tool. El agente y la memoria leen resultados
+// que pueden venir del historial persistido (JSON): se validan en vez de
+// castear. Todo es opcional, así un resultado de error ({ success, message })
+// o un shape viejo se lee como campos ausentes.
+
+// pg devuelve Date; tras pasar por el historial (JSON) llega como string.
+const timestamp = z.union([z.string(), z.date()]);
+
+const baseResultSchema = z.object({
+  success: z.boolean().optional(),
+  message: z.string().optional(),
+});
+
+const noteRowSchema = z.object({
+  id: z.number(),
+  text: z.string(),
+  createdAt: timestamp.optional(),
+});
+
+const leadRowSchema = z.object({
+  id: z.number().optional(),
+  name: z.string(),
+  email: z.string(),
+  source: z.string().nullish(),
+  createdAt: timestamp.optional(),
+});
+
+const followUpRowSchema = z.object({
+  id: z.number(),
+  title: z.string().optional(),
+  dueAt: timestamp.nullish(),
+  notes: z.string().nullish(),
+  status: z.string().optional(),
+  createdAt: timestamp.optional(),
+  completedAt: timestamp.nullish(),
+});
+
+export const toolResultSchemas = {
+  verify_passcode: baseResultSchema.extend({
+    user: z.object({ id: z.number(), name: z.string() }).optional(),
+  }),
+  create_lead: baseResultSchema.extend({ lead: leadRowSchema.optional() }),
+  record_note: baseResultSchema.extend({
+    noteId: z.number().optional(),
+    createdAt: timestamp.optional(),
+    text: z.string().optional(),
+  }),
+  list_notes: baseResultSchema.extend({ notes: z.array(noteRowSchema).optional() }),
+  delete_note: baseResultSchema.extend({ deleted: noteRowSchema.optional() }),
+  list_leads: baseResultSchema.extend({ leads: z.array(leadRowSchema).optional() }),
+  schedule_followup: baseResultSchema.extend({
+    followUp: followUpRowSchema.optional(),
+  }),
+  list_followups: baseResultSchema.extend({
+    followUps: z.array(followUpRowSchema).optional(),
+  }),
+  complete_followup: baseResultSchema.extend({
+    followUp: followUpRowSchema.optional(),
+  }),
+  search_docs: baseResultSchema.extend({
+    question: z.string().optional(),
+    rewrittenQuestion: z.string().nullish(),
+    paraphrases: z.array(z.string()).optional(),
+    // Los chunks ya salen tipados de rag.ts/static-docs.ts: sólo se verifica
+    // que sean objetos con path.
+    results: z
+      .array(
+        z.custom<DocSearchResult>(
+          (v) => typeof v === "object" && v !== null && "path" in v
+        )
+      )
+      .optional(),
+    source: z.enum(["vector", "static", "none"]).optional(),
+  }),
+};
+
+export type ToolResultName = keyof typeof toolResultSchemas;
+export type ToolResult<N extends ToolResultName> = z.infer<
+  (typeof toolResultSchemas)[N]
+>;
+
+/**
+ * toolResult(name, value): resultado de la tool `name` validado con su schema.
+ * - Si `value` no tiene el shape esperado (null, error de ejecución, formato
+ *   viejo) devuelve {} y el llamador ve campos ausentes.
+ */
+export function toolResult<N extends ToolResultName>(
+  name: N,
+  value: unknown
+): ToolResult<N> {
+  const parsed = toolResultSchemas[name].safeParse(value ?? {});
+  return (parsed.success ? parsed.data : {}) as ToolResult<N>;
+}
+
+/**
+ * toolStatus(value): campos comunes a todas las tools (`success`, `message`).
+ */
+export function toolStatus(value: unknown): z.infer<typeof baseResultSchema> {
+  const parsed = baseResultSchema.safeParse(value ?? {});
+  return parsed.success ? parsed.data : {};
+}
+
 // ------------------------------- Tools -------------------------------------
 // Cada tool aplica su schema y ejecuta su operación. Devuelve un objeto
 // simple apto para serializar en historial y presentar en UI.
@@ -112,6 +251,10 @@ export const tools: ToolRegistry = {
     name: "verify_passcode",
     description: "Valida usuario invitado por nombre+passcode.",
     schema: verifyPasscodeSchema,
+    slotPrompts: {
+      name: "¿Con qué nombre estás invitado?",
+      passcode: "Gracias, {name}. ¿Cuál es tu passcode?",
+    },
     async execute(input) {
       // Búsqueda insensible a mayúsculas/acentos. Requiere extensión unaccent.
       const r = await query<{ id: number; name: string }>(
@@ -137,6 +280,15 @@ export const tools: ToolRegistry = {
     name: "create_lead",
     description: "Crea un lead potencial.",
     schema: createLeadSchema,
+    slotPrompts: {
+      name: "¿Cómo se llama el lead?",
+      email: "¿Cuál es el email de {name}?",
+    },
+    requiresConfirmation: true,
+    describeAction: (input) =>
+      `Voy a crear el lead ${input.name.trim()} <${input.email.trim()}>${
+        input.source?.trim() ? ` (fuente: ${input.source.trim()})` : ""
+      }.`,
     async execute(input, ctx) {
       // Autorización: exige usuario autenticado.
       if (!ctx.session.authenticatedUser)
@@ -231,6 +383,8 @@ export const tools: ToolRegistry = {
     name: "delete_note",
     description: "Elimina una nota propia por ID.",
     schema: deleteNoteSchema,
+    requiresConfirmation: true,
+    describeAction: (input) => `Voy a eliminar la nota ${input.noteId}.`,
     async execute(input, ctx) {
       if (!ctx.session.authenticatedUser)
         return { success: false, message: "No autenticado" };
@@ -300,6 +454,9 @@ export const tools: ToolRegistry = {
     name: "schedule_followup",
     description: "Agenda un follow-up para el usuario autenticado.",
     schema: scheduleFollowupSchema,
+    slotPrompts: {
+      title: "¿Sobre qué es el follow-up? Pasame un título corto.",
+    },
     async execute(input, ctx) {
       if (!ctx.session.authenticatedUser)
         return { success: false, message: "No autenticado" };
@@ -390,6 +547,9 @@ export const tools: ToolRegistry = {
     name: "complete_followup",
     description: "Marca como completado un follow-up propio.",
     schema: completeFollowupSchema,
+    requiresConfirmation: true,
+    describeAction: (input) =>
+      `Voy a marcar como completado el follow-up ${input.followUpId}.`,
     async execute(input, ctx) {
       if (!ctx.session.authenticatedUser)
         return { success: false, message: "No autenticado" };
@@ -433,37 +593,77 @@ export const tools: ToolRegistry = {
   // ──────────────────────────────── search_docs ───────────────────────────
   search_docs: {
     name: "search_docs",
-    description: "Busca en la base vectorial.",
+    description:
+      "Busca en la base vectorial; admite filtros por colección y tags.",
     schema: searchSchema,
-    async execute(input) {
+    async execute(input, ctx) {
+      // Preguntas de seguimiento ("¿y cómo se rota esa key?") se vuelven
+      // autónomas con el historial antes de buscar (query-rewrite.ts).
+      const { question, ...options } = input;
+      const rewritten = await rewriteQuery(question, ctx.session);
+      const rewrite = {
+        rewrittenQuestion: rewritten.rewritten ? rewritten.standalone : null,
+        paraphrases: rewritten.paraphrases,
+      };
+
       // Delegación al motor RAG (pgvector). El filtrado/ordenamiento se resuelve allí.
-      const results = await searchDocuments(input.question);
+      // Si Postgres u Ollama no responden, se sigue con el corpus local.
+      let results: DocSearchResult[] = [];
+      let degradedReason: string | null = null;
+      try {
+        results = await searchQueries(
+          [rewritten.standalone, ...rewritten.paraphrases],
+          options
+        );
+      } catch (err) {
+        console.warn("[search_docs] búsqueda vectorial falló, uso el corpus local", err);
+        degradedReason = err instanceof Error ? err.message : String(err);
+      }
       if (results.length > 0) {
         return {
           success: true,
-          question: input.question,
+          question,
+          ...rewrite,
           results,
           source: "vector" as const,
+          mode: input.mode ?? getEnv().SEARCH_MODE,
+          rerank: input.rerank ?? getEnv().RERANK,
+          filters: input.filters ?? null,
         };
       }
 
-      const fallback = fallbackDocSearch(input.question);
+      // Respaldo BM25 sobre FALLBACK_DOCS_ROOT (resultados con degraded: true),
+      // sólo si la búsqueda falló: cero resultados de la base es una respuesta
+      // válida (p.ej. un filtro sin coincidencias).
+      const fallback = degradedReason
+        ? await fallbackDocSearch(rewritten.standalone, {
+            limit: input.limit,
+            paths: input.paths,
+            filters: input.filters,
+          })
+        : [];
       if (fallback.length > 0) {
         return {
           success: true,
-          question: input.question,
+          question,
+          ...rewrite,
           results: fallback,
           source: "static" as const,
+          degraded: true,
+          degradedReason,
+          filters: input.filters ?? null,
         };
       }
 
       return {
         success: true,
-        question: input.question,
+        question,
+        ...rewrite,
         results: [],
         source: "none" as const,
-        message:
-          "No encontré material relacionado en la documentación cargada.",
+        message: degradedReason
+          ? "La base de documentación no responde y el corpus local no tiene material relacionado."
+          : "No encontré material relacionado en la documentación cargada.",
       };
     },
   },
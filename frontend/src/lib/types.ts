@@ -12,16 +12,50 @@ export interface ClientMessage {
   role: ConversationRole;
   content: string;
   streaming?: boolean;
+  citations?: DocCitation[];
+}
+
+/**
+ * DocCitation: fuente (chunk de documentación) que respalda una respuesta RAG.
+ * - `id` es el id de doc_chunk; junto con `path` forma la cita inline [path#id].
+ * - `page`/`section`/`breadcrumb` ubican el fragmento en el archivo
+ *   ("playbook.pdf p.4", "guia.md · Onboarding > Día 5").
+ */
+export interface DocCitation {
+  id: number;
+  path: string;
+  similarity: number;
+  snippet: string;
+  page?: number | null;
+  section?: string | null;
+  breadcrumb?: string | null;
 }
 
 /**
  * AgentMessage: formato mínimo que persiste el backend en la session.
+ * - Texto de usuario/asistente o registro estructurado de una llamada a tool.
  */
-export interface AgentMessage {
+export type AgentMessage = AgentTextMessage | AgentToolMessage;
+
+export interface AgentTextMessage {
   role: "user" | "assistant";
   content: string;
 }
 
+/**
+ * AgentToolMessage: llamada a tool con su resultado. `callId` enlaza ambos
+ * lados al mapearlo al formato de tool_calls del proveedor.
+ */
+export interface AgentToolMessage {
+  role: "tool";
+  callId: string;
+  name: string;
+  input: unknown;
+  result: unknown;
+  status: "success" | "error";
+  error?: string;
+}
+
 /**
  * ClientThought: "pensamiento" del agente (transparencia para el usuario/UX).
  */
@@ -64,6 +98,18 @@ export interface AgentEventHandler {
   onState(state: AgentStateUpdate): void;
 }
 
+/**
+ * PendingAction: tool propuesta que espera confirmación del usuario.
+ * - Se persiste en session.pending_action para sobrevivir recargas.
+ */
+export interface PendingAction {
+  id: string;
+  name: string;
+  input: unknown;
+  summary: string;
+  createdAt: string;
+}
+
 /**
  * AgentStateUpdate: actualiza estado global (p.ej., usuario autenticado en UI).
  */
@@ -72,4 +118,5 @@ export interface AgentStateUpdate {
     id: number;
     name: string;
   } | null;
+  pendingAction?: PendingAction | null;
 }
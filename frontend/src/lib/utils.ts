@@ -1,5 +1,5 @@
 // ──────────────────────────────────────────────────────────────────────────────
-// File: src/lib/utils.ts — utilidades varias (pgvector, chunking, delay)
+// File: src/lib/utils.ts — utilidades varias (pgvector, citas, delay)
 // ──────────────────────────────────────────────────────────────────────────────
 
 /**
@@ -11,32 +11,22 @@ export function toPgVector(values: number[]): string {
 }
 
 /**
- * chunkText(text, size, overlap): fragmenta texto por párrafos con solapamiento.
- * - Primero normaliza CRLF → LF y separa por 2+ saltos de línea (párrafos).
- * - Si un párrafo es más largo que `size`, lo corta en ventanas con `overlap`.
- * - Devuelve fragmentos sin líneas vacías.
+ * formatLocation(path, location): ubicación legible de un chunk para citas.
+ * - Ej.: "playbook.pdf p.4" o "guia.md · Onboarding > Día 5"; usa el breadcrumb
+ *   completo si existe y si no la sección. Sin ninguno devuelve el path.
  */
-export function chunkText(text: string, size = 700, overlap = 120): string[] {
-  const normalized = text.replace(/\r\n/g, "\n");
-  const paragraphs = normalized.split(/\n{2,}/);
-  const chunks: string[] = [];
-  for (const paragraph of paragraphs) {
-    if (paragraph.length <= size) {
-      chunks.push(paragraph.trim());
-      continue;
-    }
-    let start = 0;
-    while (start < paragraph.length) {
-      const end = Math.min(start + size, paragraph.length);
-      const slice = paragraph.slice(start, end).trim();
-      if (slice) {
-        chunks.push(slice);
-      }
-      if (end === paragraph.length) break;
-      start = end - overlap; // retrocede para mantener contexto entre chunks
-    }
+export function formatLocation(
+  docPath: string,
+  location: {
+    page?: number | null;
+    section?: string | null;
+    breadcrumb?: string | null;
   }
-  return chunks.filter(Boolean);
+): string {
+  const page = location.page ? ` p.${location.page}` : "";
+  const where = location.breadcrumb || location.section;
+  const section = where ? ` · ${where}` : "";
+  return `${docPath}${page}${section}`;
 }
 
 /**
@@ -16,6 +16,11 @@ CREATE TABLE IF NOT EXISTS doc (
   meta JSONB DEFAULT '{}'::jsonb
 );
 
+-- Una fila por archivo: la ingesta incremental hace upsert por path.
+CREATE UNIQUE INDEX IF NOT EXISTS doc_path_key ON doc (path);
+-- Filtros de search_docs por colección/tags/front-matter (doc.meta @> ...)
+CREATE INDEX IF NOT EXISTS doc_meta_gin ON doc USING gin (meta jsonb_path_ops);
+
 CREATE TABLE IF NOT EXISTS doc_chunk (
   id SERIAL PRIMARY KEY,
   doc_id INT REFERENCES doc(id) ON DELETE CASCADE,
@@ -26,6 +31,33 @@ CREATE TABLE IF NOT EXISTS doc_chunk (
 CREATE INDEX IF NOT EXISTS doc_chunk_embedding_hnsw
   ON doc_chunk USING hnsw (embedding vector_cosine_ops);
 
+-- Búsqueda full-text (modo híbrido): español sin acentos ("integración" = "integracion").
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'es_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION es_unaccent (COPY = spanish);
+    ALTER TEXT SEARCH CONFIGURATION es_unaccent
+      ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+  END IF;
+END $$;
+
+ALTER TABLE doc_chunk ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('es_unaccent', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS doc_chunk_content_tsv_gin
+  ON doc_chunk USING gin (content_tsv);
+
+-- Caché de embeddings: (proveedor/modelo, dimensión, sha256 del texto) → vector.
+-- Sin dimensión fija: cada fila declara la suya en `dim`.
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  model TEXT NOT NULL,
+  dim INT NOT NULL,
+  text_hash TEXT NOT NULL,
+  embedding vector NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (model, dim, text_hash)
+);
+
 -- Leads
 CREATE TABLE IF NOT EXISTS lead (
   id SERIAL PRIMARY KEY,
@@ -63,9 +95,16 @@ CREATE TABLE IF NOT EXISTS session (
   id TEXT PRIMARY KEY,
   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
   authenticated_user JSONB,
-  history JSONB NOT NULL DEFAULT '[]'::jsonb
+  history JSONB NOT NULL DEFAULT '[]'::jsonb,
+  pending_action JSONB, -- tool propuesta que espera confirmación del usuario
+  slot_filling JSONB, -- diálogo en curso para completar campos de una tool
+  memory JSONB -- resumen de turnos compactados + hechos clave (memory.ts)
 );
 
+ALTER TABLE session ADD COLUMN IF NOT EXISTS pending_action JSONB;
+ALTER TABLE session ADD COLUMN IF NOT EXISTS slot_filling JSONB;
+ALTER TABLE session ADD COLUMN IF NOT EXISTS memory JSONB;
+
 CREATE INDEX IF NOT EXISTS session_created_at_idx ON session (created_at DESC);
 
 -- Seeds de usuarios de ejemplo (idempotentes por passcode único)